@@ -0,0 +1,66 @@
+import { describe, expectTypeOf, test } from "vitest";
+import { Collections, defineCollection, defineHooks } from "../src/index.js";
+
+// the shape generateTypes writes for an "album" collection
+type AlbumRecord = { id: number; title: string; userId: number | null };
+type AlbumCreateInput = { title: string; userId?: number | null };
+type AlbumUpdateInput = Partial<AlbumCreateInput>;
+type AlbumTypes = { record: AlbumRecord; create: AlbumCreateInput; update: AlbumUpdateInput };
+
+describe("collection types", () => {
+	test("typed hooks get the collection's types", () => {
+		const albumHooks = defineHooks<AlbumTypes>({
+			beforeOperation: [
+				({ existingData }) => {
+					expectTypeOf(existingData).toEqualTypeOf<
+						AlbumRecord | AlbumRecord[] | null | undefined
+					>();
+
+					return true;
+				},
+			],
+			modifyInput: [
+				({ inputData }) => {
+					if (inputData && !Array.isArray(inputData)) {
+						expectTypeOf(inputData.title).toEqualTypeOf<string | undefined>();
+						inputData.title = inputData.title?.trim();
+					}
+
+					return inputData;
+				},
+			],
+		});
+
+		const album = defineCollection<AlbumTypes>({
+			fields: { title: { type: "String", required: true } },
+			hooks: albumHooks,
+		});
+
+		expectTypeOf(album).toMatchTypeOf<Collections[string]>();
+	});
+
+	test("typed and untyped collections go in the same collections", () => {
+		const collections: Collections = {
+			album: defineCollection<AlbumTypes>({
+				fields: { title: { type: "String", required: true } },
+				hooks: { modifyInput: [({ inputData }) => inputData] },
+			}),
+			song: {
+				fields: { title: { type: "String" } },
+				hooks: {
+					// untyped hooks read their arguments without narrowing them
+					beforeOperation: [({ existingData }) => existingData?.userId === 1],
+					modifyInput: [
+						({ inputData }) => {
+							inputData.title = inputData.title.trim();
+
+							return inputData;
+						},
+					],
+				},
+			},
+		};
+
+		expectTypeOf(collections).toEqualTypeOf<Collections>();
+	});
+});
@@ -0,0 +1,347 @@
+import {
+	Collection,
+	Collections,
+	CompoundIndex,
+	ConfigIssue,
+	Field,
+	PrismaAttribute,
+	PrismaModel,
+	PrismaModelField,
+	PrismaSchema,
+	ReferentialAction,
+	internalTablesKeys,
+} from "../util/index.js";
+
+type Report = (path: string, message: string, fix: string) => void;
+
+const numberSubtypes = ["Int", "BigInt", "Float", "Decimal"];
+const referentialActions = ["Cascade", "SetNull", "Restrict"];
+
+const unquote = (value: string) => (value.startsWith('"') ? JSON.parse(value) : value);
+
+// "[slug, locale(sort: Desc)]" becomes [["slug"], ["locale", "Desc"]]
+const indexFields = (value = "") =>
+	value
+		.replace(/^\[|\]$/g, "")
+		.split(",")
+		.map(x => x.trim())
+		.filter(Boolean)
+		.map(x => {
+			const [, name, sort] = x.match(/^(\w+)(?:\(sort:\s*(\w+)\))?/) || [];
+
+			return [name, sort] as const;
+		});
+
+const attributeArg = (attribute: PrismaAttribute, name?: string) =>
+	attribute.args.find(arg => arg.name === name)?.value;
+
+/*
+	foreign keys aren't fields in a collection, SystemPanda generates them from the relation,
+	the relation field is named after the foreign key's column so it keeps pointing to it
+*/
+function foreignKeyRelations(model: PrismaModel) {
+	const byForeignKey: Record<string, string> = {};
+
+	for (const field of Object.values(model.fields)) {
+		const [foreignKey] = field.relation?.fields || [];
+		const fkField = model.fields[foreignKey];
+
+		if (fkField) byForeignKey[foreignKey] = fkField.dbName || fkField.name;
+	}
+
+	return byForeignKey;
+}
+
+function idConfig(path: string, model: PrismaModel, report: Report): Collection["id"] {
+	const idFields = Object.values(model.fields).filter(x => x.isId);
+
+	if (idFields.length !== 1) {
+		report(
+			`${path}.id`,
+			"The table has no single-column ID (it's either missing or compound).",
+			"SystemPanda adds an 'id' column to every collection, add one to the table or leave it out."
+		);
+		return undefined;
+	}
+
+	const [{ name, type, default: defaultValue }] = idFields;
+	const generator = defaultValue?.replace(/\(.*\)$/, "");
+	const idName = name === "id" ? {} : { name };
+
+	if (type === "Int" && generator === "autoincrement")
+		return { ...idName, type: "autoincrement" };
+	if (type === "String" && (generator === "uuid" || generator === "cuid")) {
+		return { ...idName, type: generator };
+	}
+
+	const fallback = type === "Int" ? "autoincrement" : "uuid";
+
+	report(
+		`${path}.id`,
+		`The ID '${name}' is a ${type} with ${
+			defaultValue ? `the default ${defaultValue}` : "no default"
+		}, SystemPanda only generates autoincrement, uuid and cuid IDs.`,
+		`It was set to '${fallback}', check that it matches how the IDs are generated.`
+	);
+
+	return { ...idName, type: fallback as "autoincrement" | "uuid" };
+}
+
+function defaultValueConfig(
+	path: string,
+	field: PrismaModelField,
+	report: Report
+): Partial<{ defaultValue: unknown }> {
+	const { type, kind, default: raw, isUpdatedAt } = field;
+
+	if (isUpdatedAt) return { defaultValue: { kind: "updatedAt" } };
+	if (raw === undefined) return {};
+	if (type === "DateTime" && raw === "now()") return { defaultValue: { kind: "now" } };
+	if (kind === "enum") return { defaultValue: raw };
+	if (type === "Boolean" && ["true", "false"].includes(raw)) {
+		return { defaultValue: raw === "true" };
+	}
+	if (numberSubtypes.includes(type) && Number.isFinite(Number(raw))) {
+		return { defaultValue: Number(raw) };
+	}
+	if (["String", "Json", "DateTime"].includes(type) && raw.startsWith('"')) {
+		return { defaultValue: unquote(raw) };
+	}
+
+	report(
+		`${path}.defaultValue`,
+		`The default ${raw} can't be represented.`,
+		"It was left out, the database keeps its own default if it has one."
+	);
+
+	return {};
+}
+
+function scalarField(
+	path: string,
+	field: PrismaModelField,
+	schema: PrismaSchema,
+	report: Report
+): Field | undefined {
+	const { type, kind, list, optional, isUnique, dbName, nativeType } = field;
+
+	if (kind === "unsupported" || type === "Bytes") {
+		report(path, `The column type '${type}' isn't supported.`, "It was left out.");
+		return undefined;
+	}
+
+	if (kind === "enum" && list) {
+		report(path, "Lists of enums aren't supported.", "It was left out.");
+		return undefined;
+	}
+
+	if (nativeType) {
+		report(
+			path,
+			`The native type ${nativeType} can't be represented.`,
+			`The field falls back to the default column type of '${type}'.`
+		);
+	}
+
+	let base: Partial<Field> = { type: type as "String" };
+
+	if (kind === "enum") base = { type: "enum", values: schema.enums[type], enumName: type };
+	else if (numberSubtypes.includes(type)) base = { type: "number", subtype: type as "Int" };
+
+	return {
+		...base,
+		...(!optional && !list && { required: true }),
+		...(list && { list: true }),
+		...(isUnique && { unique: true }),
+		...(dbName && { map: dbName }),
+		...defaultValueConfig(path, field, report),
+	} as Field;
+}
+
+function relationField(
+	path: string,
+	field: PrismaModelField,
+	schema: PrismaSchema,
+	report: Report
+): Field | undefined {
+	const { type, list, relation } = field;
+	const target = schema.models[type];
+
+	if (!target) {
+		report(path, `'${type}' is a composite type, which isn't supported.`, "It was left out.");
+		return undefined;
+	}
+
+	if ((relation?.fields?.length || 0) > 1) {
+		report(path, "Relations over several columns aren't supported.", "It was left out.");
+		return undefined;
+	}
+
+	const [reference] = relation?.references || [];
+	const targetId = Object.values(target.fields).find(x => x.isId);
+
+	if (reference && reference !== targetId?.name) {
+		report(
+			path,
+			`The relation references '${type}.${reference}', SystemPanda relations always reference the ID.`,
+			"It was set to reference the ID, check the foreign key's values."
+		);
+	}
+
+	const actions: Partial<Record<"onDelete" | "onUpdate", ReferentialAction>> = {};
+
+	for (const action of ["onDelete", "onUpdate"] as const) {
+		const value = relation?.[action];
+
+		if (value && referentialActions.includes(value)) {
+			actions[action] = value as ReferentialAction;
+		} else if (value) {
+			report(
+				`${path}.${action}`,
+				`The referential action '${value}' isn't supported.`,
+				"It was left out, use 'Cascade', 'SetNull' or 'Restrict'."
+			);
+		}
+	}
+
+	return {
+		type: "relation",
+		ref: type,
+		many: list,
+		...(relation?.name && { name: relation.name }),
+		...actions,
+	};
+}
+
+function modelIndexes(
+	path: string,
+	model: PrismaModel,
+	fieldKeys: Record<string, string>,
+	report: Report
+) {
+	const uniques: CompoundIndex[] = [];
+	const indexes: CompoundIndex[] = [];
+	const singleIndexes: string[] = [];
+
+	for (const attribute of model.attributes) {
+		if (attribute.name !== "@@unique" && attribute.name !== "@@index") continue;
+
+		const fields = indexFields(attributeArg(attribute) ?? attributeArg(attribute, "fields"));
+		const map = attributeArg(attribute, "map") ?? attributeArg(attribute, "name");
+		const missing = fields.filter(([name]) => !fieldKeys[name]);
+
+		if (missing.length > 0) {
+			report(
+				`${path}.${attribute.name === "@@unique" ? "uniques" : "indexes"}`,
+				`${attribute.name} over ('${missing
+					.map(([x]) => x)
+					.join("', '")}') can't be represented.`,
+				"It was left out."
+			);
+			continue;
+		}
+
+		if (attribute.name === "@@index" && fields.length === 1 && !fields[0][1] && !map) {
+			singleIndexes.push(fieldKeys[fields[0][0]]);
+			continue;
+		}
+
+		const index: CompoundIndex = {
+			fields: fields.map(([name, sort]) =>
+				sort ? { name: fieldKeys[name], sort: sort as "Asc" | "Desc" } : fieldKeys[name]
+			),
+			...(map && { name: unquote(map) }),
+		};
+
+		(attribute.name === "@@unique" ? uniques : indexes).push(index);
+	}
+
+	return { uniques, indexes, singleIndexes };
+}
+
+function collectionFromModel(model: PrismaModel, schema: PrismaSchema, report: Report): Collection {
+	const path = `content.collections.${model.name}`;
+	const byForeignKey = foreignKeyRelations(model);
+	const fields: Collection["fields"] = {};
+	// model field names to collection field names, foreign keys become their relation
+	const fieldKeys: Record<string, string> = {};
+
+	if (model.dbName) {
+		report(
+			path,
+			`The table '${model.dbName}' is mapped to the model '${model.name}'.`,
+			`Collections are named after their table, rename the table or the collection to '${model.dbName}'.`
+		);
+	}
+
+	for (const field of Object.values(model.fields)) {
+		if (field.isId) {
+			fieldKeys[field.name] = field.name;
+			continue;
+		}
+
+		if (byForeignKey[field.name]) {
+			fieldKeys[field.name] = byForeignKey[field.name];
+			continue;
+		}
+
+		const foreignKey = field.relation?.fields?.[0];
+		const key = foreignKey ? byForeignKey[foreignKey] : field.name;
+		const fieldPath = `${path}.fields.${key}`;
+		const config =
+			field.kind === "object"
+				? relationField(fieldPath, field, schema, report)
+				: scalarField(fieldPath, field, schema, report);
+
+		if (!config) continue;
+
+		fields[key] = config;
+		fieldKeys[field.name] = key;
+	}
+
+	const { uniques, indexes, singleIndexes } = modelIndexes(path, model, fieldKeys, report);
+
+	for (const key of singleIndexes) {
+		const field = fields[key];
+
+		if (field && field.type !== "relation") field.index = true;
+	}
+
+	return {
+		id: idConfig(path, model, report),
+		fields,
+		...(uniques.length > 0 && { uniques }),
+		...(indexes.length > 0 && { indexes }),
+	};
+}
+
+/*
+	converts introspected Prisma models to collections,
+	whatever can't be represented is left out or approximated and reported as an issue
+*/
+function collectionsFromSchema(schema: PrismaSchema) {
+	const collections: Collections = {};
+	const issues: ConfigIssue[] = [];
+	const report: Report = (path, message, fix) => issues.push({ path, message, fix });
+	const internalKeys: string[] = Object.values(internalTablesKeys);
+
+	for (const model of Object.values(schema.models)) {
+		const path = `content.collections.${model.name}`;
+
+		if (model.isView) {
+			report(path, "Views aren't supported.", "It was left out.");
+		} else if (internalKeys.includes(model.name)) {
+			report(path, "The table belongs to SystemPanda.", "It was left out.");
+		} else {
+			collections[model.name] = collectionFromModel(model, schema, report);
+		}
+	}
+
+	for (const name of Object.keys(schema.types)) {
+		report(`types.${name}`, "Composite types aren't supported.", "It was left out.");
+	}
+
+	return { collections, issues };
+}
+
+export { collectionsFromSchema };
@@ -0,0 +1,13 @@
+import { AnyCollectionTypes, Collection, CollectionTypes, CRUDHooks } from "../util/index.js";
+
+/*
+	identity functions, they only type the hooks of a collection with its generated types,
+	e.g. defineCollection<AlbumTypes>({ ... })
+*/
+const defineCollection = <T extends CollectionTypes = AnyCollectionTypes>(
+	collection: Collection<T>
+) => collection;
+
+const defineHooks = <T extends CollectionTypes = AnyCollectionTypes>(hooks: CRUDHooks<T>) => hooks;
+
+export { defineCollection, defineHooks };
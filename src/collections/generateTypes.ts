@@ -0,0 +1,150 @@
+import {
+	Collection,
+	Collections,
+	Database,
+	Field,
+	RelationField,
+	getDataStore,
+	hasNativeScalarLists,
+} from "../util/index.js";
+import { relationKey, resolveRelations } from "./resolveRelations.js";
+
+type ScalarField = Exclude<Field, RelationField>;
+
+const header = "// Generated by SystemPanda from the collections config, do NOT modify.\n";
+const decimalImport = `import type { Prisma } from ${JSON.stringify("@prisma/client")};\n`;
+const helperTypes = `
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+type SingleRelationCreate<C, R> = { connect?: R; create?: C };
+type SingleRelationUpdate<C, R> = { connect?: R; disconnect?: true; create?: C };
+type ListRelationCreate<C, R> = { connect?: R | R[]; create?: C | C[] };
+type ListRelationUpdate<C, R> = {
+	connect?: R | R[];
+	disconnect?: R | R[];
+	set?: R | R[];
+	create?: C | C[];
+};
+`;
+
+// "blog_posts" becomes "BlogPosts"
+const typeName = (collectionKey: string) =>
+	collectionKey
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map(x => x[0].toUpperCase() + x.slice(1))
+		.join("");
+
+const propertyKey = (name: string) =>
+	/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+
+const idType = (collection?: Collection) =>
+	!collection?.id?.type || collection.id.type === "autoincrement" ? "number" : "string";
+
+/*
+	records hold what Prisma returns, inputs also accept what a JSON body can carry,
+	e.g. DateTime as an ISO string
+*/
+function scalarType(field: ScalarField, input: boolean) {
+	if (field.type === "enum") return field.values.map(x => JSON.stringify(x)).join(" | ");
+	if (field.type === "Json") return "JsonValue";
+	if (field.type === "Boolean") return "boolean";
+	if (field.type === "DateTime") return input ? "Date | string" : "Date";
+	if (field.type !== "number") return "string";
+	if (field.subtype === "BigInt") return input ? "bigint | number" : "bigint";
+	if (field.subtype === "Decimal") return "Prisma.Decimal" + (input ? " | number | string" : "");
+
+	return "number";
+}
+
+const listOf = (type: string) => (type.includes(" ") ? `(${type})[]` : `${type}[]`);
+
+function typeBlock(name: string, properties: string[]) {
+	if (properties.length === 0) return `export type ${name} = Record<string, never>;\n`;
+
+	return `export type ${name} = {\n${properties.map(x => `\t${x};`).join("\n")}\n};\n`;
+}
+
+/*
+	TypeScript types of the records and the create/update inputs of every collection,
+	to be passed to defineCollection/defineHooks, e.g. defineHooks<AlbumTypes>
+*/
+const generateTypes = (db: Database) => {
+	const { internal, visible } = getDataStore().normalizedCollections;
+	const collections: Collections = { ...internal, ...visible };
+	const { relations } = resolveRelations(collections);
+	const nativeLists = hasNativeScalarLists(db);
+	let usesDecimal = false;
+
+	const blocks = Object.entries(visible).map(([collectionKey, collection]) => {
+		const name = typeName(collectionKey);
+		const idName = collection.id?.name || "id";
+		const record = [`${propertyKey(idName)}: ${idType(collection)}`];
+		const create: string[] = [];
+		const update: string[] = [];
+
+		for (const [field, config] of Object.entries(collection.fields)) {
+			const key = propertyKey(field.replace(/\s/g, "_"));
+
+			if (config.type === "relation") {
+				const relation = relations[relationKey(collectionKey, field)];
+				const target =
+					relation && visible[relation.target] ? typeName(relation.target) : "";
+				const targetRecord = target ? `${target}Record` : "unknown";
+				const targetCreate = target ? `${target}CreateInput` : "never";
+				const targetCollection = relation && collections[relation.target];
+				const targetIdName = targetCollection?.id?.name || "id";
+				const targetId = idType(targetCollection);
+				const ref = `${targetId} | { ${propertyKey(targetIdName)}: ${targetId} }`;
+				const kind = config.many ? "List" : "Single";
+
+				// relations are only part of a record when they're included
+				record.push(
+					`${key}?: ${config.many ? `${targetRecord}[]` : `${targetRecord} | null`}`
+				);
+
+				if (relation?.holdsForeignKey) {
+					record.push(
+						`${propertyKey(field.replace(/\s/g, "_") + "Id")}: ${targetId} | null`
+					);
+				}
+
+				create.push(`${key}?: ${kind}RelationCreate<${targetCreate}, ${ref}>`);
+				update.push(`${key}?: ${kind}RelationUpdate<${targetCreate}, ${ref}>`);
+				continue;
+			}
+
+			const { required, list, defaultValue } = config;
+			const recordType = list ? listOf(scalarType(config, false)) : scalarType(config, false);
+			const inputType = list ? listOf(scalarType(config, true)) : scalarType(config, true);
+			const nullable = !required && !(list && nativeLists);
+			/* same as the generated schema, only truthy defaults are applied by the database */
+			const optional = !required || !!defaultValue || list;
+
+			if (config.type === "number" && config.subtype === "Decimal") usesDecimal = true;
+
+			record.push(`${key}: ${recordType}${nullable ? " | null" : ""}`);
+			create.push(`${key}${optional ? "?" : ""}: ${inputType}${nullable ? " | null" : ""}`);
+			update.push(`${key}?: ${inputType}${nullable ? " | null" : ""}`);
+		}
+
+		return [
+			typeBlock(`${name}Record`, record),
+			typeBlock(`${name}CreateInput`, create),
+			typeBlock(`${name}UpdateInput`, update),
+			typeBlock(`${name}Types`, [
+				`record: ${name}Record`,
+				`create: ${name}CreateInput`,
+				`update: ${name}UpdateInput`,
+			]),
+		].join("\n");
+	});
+
+	const byKey = typeBlock(
+		"CollectionTypesByKey",
+		Object.keys(visible).map(key => `${propertyKey(key)}: ${typeName(key)}Types`)
+	);
+
+	return [header + (usesDecimal ? decimalImport : "") + helperTypes, ...blocks, byKey].join("\n");
+};
+
+export { generateTypes, typeName };
@@ -1,3 +1,9 @@
 export * from "./makePrismaModel.js";
 export * from "./overrideDefaultCollections.js";
-export * from "./collectionFromModel.js";
+export * from "./validateFields.js";
+export * from "./resolveRelations.js";
+export * from "./validateConfig.js";
+export * from "./parsePrismaSchema.js";
+export * from "./collectionsFromSchema.js";
+export * from "./generateTypes.js";
+export * from "./defineCollection.js";
@@ -1,19 +1,49 @@
-import { Database, Collections, RelationField, getDataStore } from "../util/index.js";
+import {
+	Database,
+	Collection,
+	Collections,
+	CompoundIndex,
+	SystemPandaError,
+	getDataStore,
+	dbProvider,
+	hasNativeScalarLists,
+	listStorage,
+} from "../util/index.js";
+import { relationKey, resolveRelations } from "./resolveRelations.js";
+import { formatConfigIssues } from "./validateConfig.js";
+
+/*
+	"@@unique([slug, locale], map: "slug_per_locale")",
+	relation fields are referenced by their foreign key
+*/
+const compoundIndex = (
+	attribute: "@@unique" | "@@index",
+	fields: Collection["fields"],
+	{ fields: indexFields, name }: CompoundIndex
+) => {
+	const fieldList = indexFields.map(x => {
+		const fieldName = typeof x === "string" ? x : x.name;
+		const formattedField = fieldName.replace(/\s/g, "_");
+		const ref = fields[fieldName]?.type === "relation" ? `${formattedField}Id` : formattedField;
+
+		return typeof x === "string" ? ref : `${ref}(sort: ${x.sort})`;
+	});
+
+	return `\t${attribute}([${fieldList.join(", ")}]${name ? `, map: "${name}"` : ""})`;
+};
 
 const makePrismaModel = (db: Database) => {
 	const { normalizedCollections } = getDataStore();
 	const { internal, visible } = normalizedCollections;
 	const collections: Collections = { ...internal, ...visible };
 
-	const dataSource = `// Generated by SystemPanda, do NOT modify,\n// configure your SystemPanda collections object instead.\n\ndatasource db {\n\tprovider = "${
-		db.URI?.split(":")[0]
-	}"\n\turl = env("DATABASE_URL")\n}\n\ngenerator client {\n\tprovider = "prisma-client-js"\n}\n\n`;
+	const provider = dbProvider(db);
+	const dataSource = `// Generated by SystemPanda, do NOT modify,\n// configure your SystemPanda collections object instead.\n\ndatasource db {\n\tprovider = "${provider}"\n\turl = env("DATABASE_URL")\n}\n\ngenerator client {\n\tprovider = "prisma-client-js"\n}\n\n`;
+
+	const nativeLists = hasNativeScalarLists(db);
 
-	/*
-		toggling collection names for one-to-one relations,
-		so that the @relation attribute is only applied to one of them
-	*/
-	const toggleMap: Record<string, boolean> = {};
+	// enum blocks, emitted after the models
+	const enums: Record<string, string[]> = {};
 
 	const overlappingCollectionKeys = Object.keys(visible).filter(key => key in internal);
 	if (overlappingCollectionKeys.length > 0) {
@@ -23,6 +53,15 @@ const makePrismaModel = (db: Database) => {
 		`;
 	}
 
+	const { relations, issues } = resolveRelations(collections);
+
+	if (issues.length > 0) {
+		throw new SystemPandaError({
+			level: "error",
+			message: `Invalid relation fields:\n${formatConfigIssues(issues)}`,
+		});
+	}
+
 	return (
 		dataSource +
 		Object.keys(collections)
@@ -42,58 +81,38 @@ const makePrismaModel = (db: Database) => {
 					const { type } = key;
 					const formattedField = field.replace(/\s/g, "_");
 					const parts = ["\t" + formattedField];
-					const fieldType = type === "number" ? key.subtype : type;
+					let fieldType: string = type === "number" ? key.subtype : type;
 
-					if (type === "relation") {
-						const { ref, many } = key;
-						const baseRef =
-							ref.indexOf(".") === -1 ? ref : ref.slice(0, ref.indexOf("."));
-
-						const relatedCollection = Object.entries(
-							collections[baseRef].fields
-						).reduce<{
-							[key: string]: [string, RelationField];
-						}>((result, [k, v]) => {
-							if (v.type === "relation") {
-								result[collection] = [k, v];
-							}
+					if (type === "enum") {
+						fieldType = key.enumName || `${collection}_${formattedField}`;
+						enums[fieldType] = key.values;
+					}
 
-							return result;
-						}, {});
+					if (type === "relation") {
+						const { target, name, holdsForeignKey, kind, onDelete, onUpdate } =
+							relations[relationKey(collection, field)];
+						const targetId = collections[target].id;
+						const relationArgs = name ? [`"${name}"`] : [];
 
-						const [_, refRelationValue] = relatedCollection[collection];
+						parts.push(target + (key.many ? "[]" : "?"));
 
-						let relationKind;
+						if (holdsForeignKey) {
+							relationArgs.push(
+								`fields: [${formattedField}Id]`,
+								`references: [${targetId?.name || "id"}]`
+							);
 
-						if (many && refRelationValue.many) {
-							relationKind = "manyToMany";
-						} else if (
-							(many && !refRelationValue.many) ||
-							(!many && refRelationValue.many)
-						) {
-							relationKind = "oneToMany";
-						} else if (!many && !refRelationValue.many) {
-							relationKind = "oneToOne";
+							if (onDelete) relationArgs.push(`onDelete: ${onDelete}`);
+							if (onUpdate) relationArgs.push(`onUpdate: ${onUpdate}`);
 						}
 
-						parts.push(baseRef + (many ? "[]" : "?"));
-
-						if (!many) {
-							if (!toggleMap[baseRef]) toggleMap[baseRef] = true;
-							const isToggled = toggleMap[collection];
-
-							if (
-								(relationKind === "oneToMany" || relationKind === "oneToOne") &&
-								!isToggled
-							) {
-								parts.push(
-									`@relation(fields: [${formattedField}Id], references: [id])`
-								);
-							}
+						if (relationArgs.length > 0) {
+							parts.push(`@relation(${relationArgs.join(", ")})`);
+						}
 
+						if (holdsForeignKey) {
 							const undefinedOrAutoIncrementID =
-								!collections[baseRef].id?.type ||
-								collections[baseRef].id?.type === "autoincrement";
+								!targetId?.type || targetId.type === "autoincrement";
 
 							parts.push(
 								`\n\t${formattedField}Id ${
@@ -101,19 +120,29 @@ const makePrismaModel = (db: Database) => {
 								}? @map("${formattedField}")`
 							);
 
-							if (relationKind === "oneToOne") {
-								parts.push("@unique");
-							}
+							if (kind === "oneToOne") parts.push("@unique");
 						}
 					} else {
 						/* other types of fields */
 
-						const { required, unique, map, defaultValue } = key;
-						parts.push(`${required ? fieldType : `${fieldType}?`}`);
+						const { required, unique, map, defaultValue, list } = key;
+
+						if (list && nativeLists) {
+							// scalar lists can't be optional in Prisma, they're empty instead
+							parts.push(`${fieldType}[]`);
+						} else if (list && listStorage(db) === "text") {
+							parts.push(required ? "String" : "String?");
+							// SQL Server's String is an NVarChar(1000) by default
+							if (provider === "sqlserver") parts.push("@db.NVarChar(Max)");
+						} else if (list) {
+							parts.push(required ? "Json" : "Json?");
+						} else {
+							parts.push(`${required ? fieldType : `${fieldType}?`}`);
+						}
 
 						if (unique) parts.push("@unique");
 						if (map) parts.push(`@map("${map}")`);
-						if (defaultValue) {
+						if (defaultValue && !list) {
 							let value;
 
 							if (type === "DateTime" && typeof defaultValue === "object") {
@@ -122,6 +151,8 @@ const makePrismaModel = (db: Database) => {
 								} else if (defaultValue.kind === "updatedAt") {
 									value = "@" + defaultValue.kind;
 								}
+							} else if (type === "enum") {
+								value = String(defaultValue);
 							} else {
 								value = JSON.stringify(defaultValue);
 							}
@@ -143,10 +174,17 @@ const makePrismaModel = (db: Database) => {
 					}
 				}
 
+				const { uniques, indexes } = collections[collection];
+				uniques?.forEach(x => model.push(compoundIndex("@@unique", fields, x)));
+				indexes?.forEach(x => model.push(compoundIndex("@@index", fields, x)));
+
 				model.push("}");
 				return model.join("\n") + "\n";
 			})
-			.join("\n")
+			.join("\n") +
+		Object.entries(enums)
+			.map(([name, values]) => `\nenum ${name} {\n\t${values.join("\n\t")}\n}\n`)
+			.join("")
 	);
 };
 
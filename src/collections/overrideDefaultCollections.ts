@@ -1,6 +1,20 @@
-import { AuthFields, Collection, Collections, internalTablesKeys } from "../util/index.js";
+import {
+	ADMIN_ROLE,
+	AuthFields,
+	AuthSession,
+	Collection,
+	Collections,
+	internalTablesKeys,
+} from "../util/index.js";
 
-function overrideDefaultCollections(authFields: Required<AuthFields>) {
+// the initial user is seeded as an admin, so the enum can't be without it
+const enumRoles = (roles: string[]) =>
+	roles.includes(ADMIN_ROLE) ? roles : [ADMIN_ROLE, ...roles];
+
+function overrideDefaultCollections(
+	authFields: Required<AuthFields>,
+	roles?: AuthSession["roles"]
+) {
 	const defaultCollections: Record<
 		(typeof internalTablesKeys)[keyof typeof internalTablesKeys],
 		Collection
@@ -54,10 +68,9 @@ function overrideDefaultCollections(authFields: Required<AuthFields>) {
 			...system_panda_users,
 			fields: {
 				...system_panda_users.fields,
-				[authFields.roleField]: {
-					type: "String",
-					required: true,
-				},
+				[authFields.roleField]: roles
+					? { type: "enum", values: enumRoles(roles), required: true }
+					: { type: "String", required: true },
 				[authFields.uniqueIdentifierField]: {
 					type: "String",
 					required: true,
@@ -0,0 +1,234 @@
+import { PrismaAttribute, PrismaModel, PrismaModelField, PrismaSchema } from "../util/index.js";
+
+const scalarTypes = [
+	"String",
+	"Boolean",
+	"Int",
+	"BigInt",
+	"Float",
+	"Decimal",
+	"DateTime",
+	"Json",
+	"Bytes",
+];
+
+// removes "//" and "///" comments, strings are kept as they are
+function stripComments(schema: string) {
+	return schema
+		.split("\n")
+		.map(line => {
+			let inString = false;
+
+			for (let i = 0; i < line.length; i++) {
+				if (inString && line[i] === "\\") i++;
+				else if (line[i] === '"') inString = !inString;
+				else if (!inString && line.startsWith("//", i)) return line.slice(0, i);
+			}
+
+			return line;
+		})
+		.join("\n");
+}
+
+/*
+	splits on a separator that's outside of strings, parentheses and brackets,
+	e.g. the arguments of @relation("name", fields: [a, b], references: [id])
+*/
+function splitTopLevel(input: string, separator: string) {
+	const parts: string[] = [];
+	let depth = 0;
+	let inString = false;
+	let current = "";
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inString) {
+			if (char === "\\") {
+				current += char + (input[i + 1] ?? "");
+				i++;
+				continue;
+			}
+
+			if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if ("([{".includes(char)) {
+			depth++;
+		} else if (")]}".includes(char)) {
+			depth--;
+		} else if (depth === 0 && char === separator) {
+			if (current.trim() !== "") parts.push(current.trim());
+			current = "";
+			continue;
+		}
+
+		current += char;
+	}
+
+	if (current.trim() !== "") parts.push(current.trim());
+
+	return parts;
+}
+
+// "@default(now())" becomes { name: "@default", args: [{ value: "now()" }] }
+function parseAttribute(token: string): PrismaAttribute {
+	const open = token.indexOf("(");
+
+	if (open === -1) return { name: token, args: [] };
+
+	const inner = token.slice(open + 1, token.lastIndexOf(")"));
+
+	return {
+		name: token.slice(0, open).trim(),
+		args: splitTopLevel(inner, ",").map(arg => {
+			const named = arg.match(/^(\w+)\s*:\s*([\s\S]+)$/);
+
+			return named ? { name: named[1], value: named[2].trim() } : { value: arg };
+		}),
+	};
+}
+
+const unquote = (value: string) => (value.startsWith('"') ? JSON.parse(value) : value);
+
+// "[a, b(sort: Desc)]" becomes ["a", "b"]
+const fieldNames = (value: string) =>
+	splitTopLevel(value.replace(/^\[|\]$/g, ""), ",").map(x => x.replace(/\(.*\)$/, ""));
+
+const attributeArg = (attribute: PrismaAttribute | undefined, name?: string) =>
+	attribute?.args.find(arg => arg.name === name)?.value;
+
+// attributes with their arguments can contain spaces, e.g. "@relation(fields: [a], ...)"
+const lineAttributes = (tokens: string[]) => tokens.map(parseAttribute);
+
+function parseField(line: string): PrismaModelField {
+	const [name, typeSpec = "", ...rest] = splitTopLevel(line.replace(/\t/g, " "), " ");
+	const attributes = lineAttributes(rest);
+	const find = (attributeName: string) => attributes.find(x => x.name === attributeName);
+	const list = typeSpec.endsWith("[]");
+	const optional = typeSpec.endsWith("?");
+	const type = typeSpec.replace(/(\[\]|\?)$/, "");
+	const relationAttribute = find("@relation");
+	const defaultArg = attributeArg(find("@default"));
+	const mapArg = attributeArg(find("@map")) ?? attributeArg(find("@map"), "name");
+	const nativeType = rest.find(x => x.startsWith("@db."));
+	const relationFields = attributeArg(relationAttribute, "fields");
+	const references = attributeArg(relationAttribute, "references");
+	const relationName = attributeArg(relationAttribute) ?? attributeArg(relationAttribute, "name");
+
+	return {
+		name,
+		type,
+		kind: "scalar",
+		list,
+		optional,
+		isId: !!find("@id"),
+		isUnique: !!find("@unique"),
+		isUpdatedAt: !!find("@updatedAt"),
+		attributes,
+		...(defaultArg !== undefined && { default: defaultArg }),
+		...(mapArg !== undefined && { dbName: unquote(mapArg) }),
+		...(nativeType && { nativeType }),
+		...(relationAttribute && {
+			relation: {
+				...(relationName !== undefined && { name: unquote(relationName) }),
+				...(relationFields && { fields: fieldNames(relationFields) }),
+				...(references && { references: fieldNames(references) }),
+				...(attributeArg(relationAttribute, "onDelete") && {
+					onDelete: attributeArg(relationAttribute, "onDelete"),
+				}),
+				...(attributeArg(relationAttribute, "onUpdate") && {
+					onUpdate: attributeArg(relationAttribute, "onUpdate"),
+				}),
+			},
+		}),
+	};
+}
+
+function parseModel(name: string, body: string, isView: boolean): PrismaModel {
+	const model: PrismaModel = { name, isView, fields: {}, attributes: [] };
+
+	for (const line of body.split("\n").map(x => x.trim())) {
+		if (line === "") continue;
+
+		if (line.startsWith("@@")) {
+			model.attributes.push(...lineAttributes(splitTopLevel(line.replace(/\t/g, " "), " ")));
+		} else {
+			const field = parseField(line);
+			model.fields[field.name] = field;
+		}
+	}
+
+	const mapArg = attributeArg(model.attributes.find(x => x.name === "@@map"));
+
+	if (mapArg !== undefined) model.dbName = unquote(mapArg);
+
+	return model;
+}
+
+/*
+	top-level blocks with their bodies, e.g. ["model", "album", "..."],
+	a block ends at its closing brace, not at the first one
+*/
+function blocks(schema: string) {
+	const result: [string, string, string][] = [];
+	const blockStart = /^\s*(model|view|type|enum|datasource|generator)\s+(\w+)\s*\{/gm;
+	let match;
+
+	while ((match = blockStart.exec(schema)) !== null) {
+		let depth = 1;
+		let inString = false;
+		let i = blockStart.lastIndex;
+
+		for (; i < schema.length && depth > 0; i++) {
+			const char = schema[i];
+
+			if (inString && char === "\\") i++;
+			else if (char === '"') inString = !inString;
+			else if (!inString && char === "{") depth++;
+			else if (!inString && char === "}") depth--;
+		}
+
+		result.push([match[1], match[2], schema.slice(blockStart.lastIndex, i - 1)]);
+		blockStart.lastIndex = i;
+	}
+
+	return result;
+}
+
+/*
+	reads a Prisma schema into its models, enums and composite types,
+	field kinds are resolved once every block is known
+*/
+function parsePrismaSchema(prismaSchema: string): PrismaSchema {
+	const schema: PrismaSchema = { models: {}, enums: {}, types: {} };
+
+	for (const [blockType, name, body] of blocks(stripComments(prismaSchema))) {
+		if (blockType === "model" || blockType === "view") {
+			schema.models[name] = parseModel(name, body, blockType === "view");
+		} else if (blockType === "type") {
+			schema.types[name] = parseModel(name, body, false);
+		} else if (blockType === "enum") {
+			schema.enums[name] = body
+				.split("\n")
+				.map(line => line.trim().split(/\s/)[0])
+				.filter(value => value !== "" && !value.startsWith("@@"));
+		} else if (blockType === "datasource") {
+			const provider = body.match(/provider\s*=\s*"([^"]+)"/);
+
+			if (provider) schema.provider = provider[1];
+		}
+	}
+
+	for (const model of [...Object.values(schema.models), ...Object.values(schema.types)]) {
+		for (const field of Object.values(model.fields)) {
+			if (schema.enums[field.type]) field.kind = "enum";
+			else if (schema.models[field.type] || schema.types[field.type]) field.kind = "object";
+			else if (!scalarTypes.includes(field.type)) field.kind = "unsupported";
+		}
+	}
+
+	return schema;
+}
+
+export { parsePrismaSchema };
@@ -0,0 +1,168 @@
+import { Collections, ConfigIssue, RelationField, ResolvedRelation } from "../util/index.js";
+
+type RelationSide = {
+	collection: string;
+	field: string;
+	config: RelationField;
+	target: string;
+	refField?: string;
+};
+
+const relationKey = (collection: string, field: string) => `${collection}.${field}`;
+
+const relationPath = ({ collection, field }: RelationSide) =>
+	`content.collections.${collection}.fields.${field}`;
+
+/*
+	a ref with a relation field after the dot ("album.relation_song")
+	only pairs with that field
+*/
+function pointsTo(collections: Collections, side: RelationSide, other: RelationSide) {
+	const refType = side.refField && collections[side.target].fields[side.refField]?.type;
+
+	return refType !== "relation" || side.refField === other.field;
+}
+
+function relationKind(a: RelationSide, b: RelationSide): ResolvedRelation["kind"] {
+	if (a.config.many && b.config.many) return "manyToMany";
+	if (a.config.many || b.config.many) return "oneToMany";
+
+	return "oneToOne";
+}
+
+/*
+	pairs every relation field with the field on the other side of the relation,
+	by name, then by ref, then by being the only candidate,
+	configs that can't be paired unambiguously are returned as issues
+*/
+function resolveRelations(collections: Collections) {
+	const relations: Record<string, ResolvedRelation> = {};
+	const issues: ConfigIssue[] = [];
+	const sides: RelationSide[] = Object.entries(collections).flatMap(([collection, { fields }]) =>
+		Object.entries(fields).flatMap(([field, config]) => {
+			if (config.type !== "relation") return [];
+
+			const [target, refField] = config.ref.split(".");
+
+			return [{ collection, field, config, target, refField }];
+		})
+	);
+	const paired = new Set<RelationSide>();
+	const pairs: [RelationSide, RelationSide][] = [];
+
+	for (const side of sides) {
+		if (paired.has(side)) continue;
+
+		const { collection, target, config } = side;
+
+		if (!collections[target]) {
+			const collectionKeys = Object.keys(collections).join("', '");
+
+			issues.push({
+				path: relationPath(side),
+				message: `Refers to the collection '${target}', which doesn't exist.`,
+				fix: `Set 'ref' to one of the collections: '${collectionKeys}'.`,
+			});
+			continue;
+		}
+
+		const candidates = sides.filter(
+			x =>
+				x !== side &&
+				!paired.has(x) &&
+				x.collection === target &&
+				x.target === collection &&
+				x.config.name === config.name &&
+				pointsTo(collections, side, x) &&
+				pointsTo(collections, x, side)
+		);
+
+		if (candidates.length === 0) {
+			issues.push({
+				path: relationPath(side),
+				message: `No relation field in '${target}' refers back to '${collection}'${
+					config.name ? ` with the name '${config.name}'` : ""
+				}.`,
+				fix: `Add a relation field to '${target}' with 'ref: ${collection}'${
+					config.name ? ` and 'name: ${config.name}'` : ""
+				}.`,
+			});
+			continue;
+		}
+
+		if (candidates.length > 1) {
+			const candidateFields = candidates.map(x => x.field).join("', '");
+
+			issues.push({
+				path: relationPath(side),
+				message: `Ambiguous relation, the fields ('${candidateFields}') of '${target}' all refer back to '${collection}'.`,
+				fix: "Give the two sides of each relation the same 'name'.",
+			});
+			continue;
+		}
+
+		paired.add(side).add(candidates[0]);
+		pairs.push([side, candidates[0]]);
+	}
+
+	/*
+		Prisma needs a name for self-relations
+		and for relations between collections that are related more than once
+	*/
+	const pairsBetween = (a: RelationSide, b: RelationSide) =>
+		pairs.filter(
+			([x, y]) =>
+				[x.collection, y.collection].sort().join() ===
+				[a.collection, b.collection].sort().join()
+		).length;
+
+	for (const [a, b] of pairs) {
+		const kind = relationKind(a, b);
+		const needsName = a.collection === b.collection || pairsBetween(a, b) > 1;
+		const name = a.config.name || (needsName ? `${a.collection}_${a.field}` : undefined);
+		const foreignKeySide = kind === "oneToMany" && a.config.many ? b : a;
+		const actions: Pick<ResolvedRelation, "onDelete" | "onUpdate"> = {};
+
+		for (const action of ["onDelete", "onUpdate"] as const) {
+			const values = [a.config[action], b.config[action]].filter(Boolean);
+
+			if (values.length === 0) continue;
+
+			if (kind === "manyToMany") {
+				issues.push({
+					path: relationPath(a.config[action] ? a : b),
+					message: `'${action}' isn't supported on many-to-many relations.`,
+					fix: `Remove '${action}'.`,
+				});
+			} else if (values.length === 2 && values[0] !== values[1]) {
+				issues.push({
+					path: relationPath(a),
+					message: `'${action}' is '${values[0]}' here but '${
+						values[1]
+					}' on '${relationPath(b)}'.`,
+					fix: `Set '${action}' on one side only.`,
+				});
+			} else {
+				actions[action] = values[0];
+			}
+		}
+
+		for (const [side, other] of [
+			[a, b],
+			[b, a],
+		]) {
+			relations[relationKey(side.collection, side.field)] = {
+				kind,
+				target: other.collection,
+				backField: other.field,
+				name,
+				holdsForeignKey: kind !== "manyToMany" && side === foreignKeySide,
+				...actions,
+			};
+		}
+	}
+
+	return { relations, issues };
+}
+
+export { resolveRelations, relationKey };
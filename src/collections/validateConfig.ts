@@ -0,0 +1,814 @@
+import {
+	ADMIN_ROLE,
+	Collection,
+	Collections,
+	ConfigIssue,
+	Field,
+	Options,
+	ResolvedRelation,
+	SystemPandaError,
+	Webhook,
+	crudMapping,
+	dbProvider,
+} from "../util/index.js";
+import { relationKey, resolveRelations } from "./resolveRelations.js";
+import { typeName } from "./generateTypes.js";
+
+type Report = (path: string, message: string, fix: string) => void;
+
+const identifier = /^[A-Za-z][A-Za-z0-9_]*$/;
+const providers = ["postgresql", "mysql", "sqlite", "sqlserver", "mongodb", "cockroachdb"];
+const fieldTypes = ["String", "Json", "number", "Boolean", "DateTime", "enum", "relation"];
+const listTypes = ["String", "number", "Boolean", "DateTime"];
+const numberSubtypes = ["Int", "BigInt", "Float", "Decimal"];
+const idTypes = ["autoincrement", "uuid", "cuid"];
+const referentialActions = ["Cascade", "SetNull", "Restrict"];
+const formats = ["email", "url"];
+const migrationModes = ["dev", "deploy", "push", "none"];
+const graphqlTypeNames = ["Query", "Mutation", "JSON", "DateTime", "BigInt"];
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> =>
+	typeof x === "object" && x !== null && !Array.isArray(x);
+
+const isPositiveInt = (x: unknown) => Number.isInteger(x) && (x as number) > 0;
+
+const asIdentifier = (name: string) => name.trim().replace(/\W+/g, "_");
+
+// edit distance, for "did you mean" suggestions on typos
+function distance(a: string, b: string) {
+	const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+	for (let i = 1; i <= a.length; i++) {
+		let diagonal = row[0];
+		row[0] = i;
+
+		for (let j = 1; j <= b.length; j++) {
+			const above = row[j];
+			row[j] = Math.min(
+				row[j] + 1,
+				row[j - 1] + 1,
+				diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+			diagonal = above;
+		}
+	}
+
+	return row[b.length];
+}
+
+function oneOfFix(value: unknown, options: string[]) {
+	if (typeof value === "string" && options.length > 0) {
+		const [closest] = [...options].sort(
+			(x, y) =>
+				distance(value.toLowerCase(), x.toLowerCase()) -
+				distance(value.toLowerCase(), y.toLowerCase())
+		);
+
+		const closestDistance = distance(value.toLowerCase(), closest.toLowerCase());
+
+		if (closestDistance < value.length && closestDistance <= Math.max(2, value.length / 3)) {
+			return `Did you mean '${closest}'?`;
+		}
+	}
+
+	return `Use one of: '${options.join("', '")}'.`;
+}
+
+function validateDefaultValue(path: string, field: Field, report: Report) {
+	if (field.type === "relation" || field.defaultValue === undefined) return;
+
+	const { type, defaultValue } = field;
+	const defaultPath = `${path}.defaultValue`;
+
+	if (field.list) {
+		report(defaultPath, "List fields can't have a default value.", "Remove 'defaultValue'.");
+	} else if (type === "String" || type === "Json") {
+		if (typeof defaultValue !== "string") {
+			report(defaultPath, `Expected a string for a '${type}' field.`, "Use a string.");
+		} else if (type === "Json") {
+			try {
+				JSON.parse(defaultValue);
+			} catch (_) {
+				report(
+					defaultPath,
+					"Expected a JSON string for a 'Json' field.",
+					"Use JSON.stringify() on the default value."
+				);
+			}
+		}
+	} else if (type === "number") {
+		const isInteger = field.subtype === "Int" || field.subtype === "BigInt";
+
+		if (typeof defaultValue !== "number" || !Number.isFinite(defaultValue)) {
+			report(defaultPath, "Expected a number for a 'number' field.", "Use a number.");
+		} else if (isInteger && !Number.isInteger(defaultValue)) {
+			report(
+				defaultPath,
+				`Expected an integer for a '${field.subtype}' field.`,
+				"Use an integer, or a 'Float'/'Decimal' subtype."
+			);
+		}
+	} else if (type === "Boolean" && typeof defaultValue !== "boolean") {
+		report(defaultPath, "Expected a boolean for a 'Boolean' field.", "Use true or false.");
+	} else if (type === "DateTime") {
+		const isKind =
+			isPlainObject(defaultValue) && ["now", "updatedAt"].includes(String(defaultValue.kind));
+		const isDate = typeof defaultValue === "string" && !Number.isNaN(Date.parse(defaultValue));
+
+		if (!isKind && !isDate) {
+			report(
+				defaultPath,
+				"Expected an ISO 8601 date or { kind: 'now' | 'updatedAt' } for a 'DateTime' field.",
+				"Use e.g. '2024-01-01T00:00:00.000Z' or { kind: 'now' }."
+			);
+		}
+	} else if (type === "enum" && !field.values?.includes(defaultValue)) {
+		report(
+			defaultPath,
+			`'${defaultValue}' isn't one of the enum's values.`,
+			oneOfFix(defaultValue, field.values || [])
+		);
+	}
+}
+
+function validateRules(path: string, field: Field, report: Report) {
+	if (field.type === "relation" || field.validation === undefined) return;
+
+	const rulesPath = `${path}.validation`;
+	const { validation } = field;
+
+	if (!isPlainObject(validation)) {
+		report(
+			rulesPath,
+			"Expected an object of validation rules.",
+			"Use e.g. { maxLength: 100 }."
+		);
+		return;
+	}
+
+	for (const rule of ["minLength", "maxLength"] as const) {
+		const value = validation[rule];
+
+		if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+			report(`${rulesPath}.${rule}`, "Expected a non-negative integer.", "Use e.g. 10.");
+		}
+	}
+
+	for (const rule of ["min", "max"] as const) {
+		const value = validation[rule];
+
+		if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value))) {
+			report(`${rulesPath}.${rule}`, "Expected a number.", "Use e.g. 10.");
+		}
+	}
+
+	const { minLength, maxLength, min, max, pattern, format, oneOf, validate } = validation;
+
+	if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+		report(rulesPath, "'minLength' is greater than 'maxLength'.", "Swap them.");
+	}
+
+	if (min !== undefined && max !== undefined && min > max) {
+		report(rulesPath, "'min' is greater than 'max'.", "Swap them.");
+	}
+
+	if (typeof pattern === "string") {
+		try {
+			new RegExp(pattern);
+		} catch (err: unknown) {
+			report(`${rulesPath}.pattern`, (err as Error).message, "Fix the regular expression.");
+		}
+	} else if (pattern !== undefined && !(pattern instanceof RegExp)) {
+		report(`${rulesPath}.pattern`, "Expected a RegExp or its source.", "Use e.g. /^[a-z]+$/.");
+	}
+
+	if (format !== undefined && !formats.includes(format)) {
+		report(`${rulesPath}.format`, `'${format}' isn't a format.`, oneOfFix(format, formats));
+	}
+
+	if (oneOf !== undefined && !Array.isArray(oneOf)) {
+		report(`${rulesPath}.oneOf`, "Expected a list of values.", "Use e.g. ['a', 'b'].");
+	}
+
+	if (validate !== undefined && typeof validate !== "function") {
+		report(
+			`${rulesPath}.validate`,
+			"Expected a function.",
+			"Use e.g. value => value !== 'admin' || 'Reserved name.'."
+		);
+	}
+}
+
+function validateField(
+	path: string,
+	name: string,
+	field: Field,
+	collections: Collections,
+	report: Report
+) {
+	if (!identifier.test(name)) {
+		report(
+			path,
+			`'${name}' isn't a valid field name, only letters, digits and underscores are allowed, starting with a letter.`,
+			`Rename it to '${asIdentifier(name)}', use 'map' for a different column name.`
+		);
+	}
+
+	if (!isPlainObject(field)) {
+		report(path, "Expected a field object.", "Use e.g. { type: 'String' }.");
+		return;
+	}
+
+	if (!fieldTypes.includes(field.type)) {
+		report(
+			`${path}.type`,
+			`'${field.type}' isn't a field type.`,
+			oneOfFix(field.type, fieldTypes)
+		);
+		return;
+	}
+
+	if (field.type === "relation") {
+		const [target, refField] = String(field.ref).split(".");
+		const targetCollection = collections[target];
+
+		if (typeof field.ref !== "string" || !targetCollection) {
+			report(
+				`${path}.ref`,
+				`Refers to the collection '${target}', which doesn't exist.`,
+				oneOfFix(target, Object.keys(collections))
+			);
+		} else if (refField) {
+			const targetFields = [
+				targetCollection.id?.name || "id",
+				...Object.keys(targetCollection.fields),
+			];
+
+			if (!targetFields.includes(refField)) {
+				report(
+					`${path}.ref`,
+					`'${target}' has no field '${refField}'.`,
+					oneOfFix(refField, targetFields)
+				);
+			}
+		}
+
+		if (typeof field.many !== "boolean") {
+			report(
+				`${path}.many`,
+				"Expected 'many' to be true or false.",
+				"Use true for a list of records, false for a single record."
+			);
+		}
+
+		for (const action of ["onDelete", "onUpdate"] as const) {
+			const value = field[action];
+
+			if (value !== undefined && !referentialActions.includes(value)) {
+				report(
+					`${path}.${action}`,
+					`'${value}' isn't a referential action.`,
+					oneOfFix(value, referentialActions)
+				);
+			}
+		}
+
+		return;
+	}
+
+	if (field.type === "number" && !numberSubtypes.includes(field.subtype)) {
+		report(
+			`${path}.subtype`,
+			`'${field.subtype}' isn't a number subtype.`,
+			oneOfFix(field.subtype, numberSubtypes)
+		);
+	}
+
+	if (field.type === "enum") {
+		const { values } = field;
+
+		if (!Array.isArray(values) || values.length === 0) {
+			report(
+				`${path}.values`,
+				"Enums need a list of values.",
+				"Use e.g. ['DRAFT', 'PUBLISHED']."
+			);
+		} else {
+			values
+				.filter(x => typeof x !== "string" || !identifier.test(x))
+				.forEach(x =>
+					report(
+						`${path}.values`,
+						`'${x}' isn't a valid enum value, only letters, digits and underscores are allowed, starting with a letter.`,
+						`Rename it to '${asIdentifier(String(x))}'.`
+					)
+				);
+
+			if (new Set(values).size !== values.length) {
+				report(
+					`${path}.values`,
+					"Enum values have to be unique.",
+					"Remove the duplicates."
+				);
+			}
+		}
+
+		if (field.enumName !== undefined && !identifier.test(field.enumName)) {
+			report(
+				`${path}.enumName`,
+				`'${field.enumName}' isn't a valid enum name.`,
+				`Rename it to '${asIdentifier(field.enumName)}'.`
+			);
+		}
+	}
+
+	if (field.list && !listTypes.includes(field.type)) {
+		report(
+			`${path}.list`,
+			`'${field.type}' fields can't be lists.`,
+			`Remove 'list', only '${listTypes.join("', '")}' fields can be lists.`
+		);
+	}
+
+	if (field.list && field.unique) {
+		report(`${path}.unique`, "List fields can't be unique.", "Remove 'unique'.");
+	}
+
+	validateDefaultValue(path, field, report);
+	validateRules(path, field, report);
+}
+
+function validateIndexes(
+	path: string,
+	collection: Collection,
+	key: "uniques" | "indexes",
+	report: Report
+) {
+	const indexes = collection[key];
+
+	if (indexes === undefined) return;
+
+	if (!Array.isArray(indexes)) {
+		report(`${path}.${key}`, "Expected a list.", "Use e.g. [{ fields: ['slug', 'locale'] }].");
+		return;
+	}
+
+	const fieldNames = Object.keys(collection.fields);
+
+	indexes.forEach(({ fields }, i) => {
+		const indexPath = `${path}.${key}.${i}.fields`;
+
+		if (!Array.isArray(fields) || fields.length === 0) {
+			report(indexPath, "Expected a list of fields.", "Use e.g. ['slug', 'locale'].");
+			return;
+		}
+
+		for (const x of fields) {
+			const name = typeof x === "string" ? x : x.name;
+			const field = collection.fields[name];
+
+			if (!field) {
+				report(
+					indexPath,
+					`'${name}' isn't a field of the collection.`,
+					oneOfFix(name, fieldNames)
+				);
+			} else if (field.type === "relation" && field.many) {
+				report(
+					indexPath,
+					`'${name}' is a list relation and can't be indexed.`,
+					`Remove '${name}'.`
+				);
+			} else if (typeof x !== "string" && !["Asc", "Desc"].includes(x.sort)) {
+				report(indexPath, `'${x.sort}' isn't a sort order.`, "Use 'Asc' or 'Desc'.");
+			}
+		}
+	});
+}
+
+/*
+	a single relation is indexed by its foreign key,
+	which only exists on the side of the relation that holds it
+*/
+function validateIndexedRelations(
+	collections: Collections,
+	relations: Record<string, ResolvedRelation>,
+	report: Report
+) {
+	for (const [cKey, collection] of Object.entries(collections)) {
+		for (const key of ["uniques", "indexes"] as const) {
+			collection[key]?.forEach(({ fields }, i) => {
+				for (const x of fields) {
+					const name = typeof x === "string" ? x : x.name;
+					const relation = relations[relationKey(cKey, name)];
+
+					if (relation && !relation.holdsForeignKey) {
+						report(
+							`content.collections.${cKey}.${key}.${i}.fields`,
+							`'${name}' doesn't hold the foreign key of its relation and can't be indexed.`,
+							`Remove '${name}', or index '${relation.backField}' on '${relation.target}'.`
+						);
+					}
+				}
+			});
+		}
+	}
+}
+
+function validateWebhooks(path: string, webhooks: Webhook[] | undefined, report: Report) {
+	if (webhooks === undefined) return;
+
+	if (!Array.isArray(webhooks)) {
+		report(path, "Expected a list of webhooks.", "Use e.g. [{ name, api, onOperation }].");
+		return;
+	}
+
+	const operations = Object.keys(crudMapping);
+
+	webhooks.forEach(({ api, onOperation }, i) => {
+		try {
+			new URL(api);
+		} catch (_) {
+			report(
+				`${path}.${i}.api`,
+				`'${api}' isn't a URL.`,
+				"Use an absolute URL, e.g. 'https://example.com/hook'."
+			);
+		}
+
+		if (!Array.isArray(onOperation)) {
+			report(
+				`${path}.${i}.onOperation`,
+				"Expected a list of operations.",
+				`Use some of: '${operations.join("', '")}'.`
+			);
+			return;
+		}
+
+		onOperation
+			.filter(x => !operations.includes(x))
+			.forEach(x =>
+				report(
+					`${path}.${i}.onOperation`,
+					`'${x}' isn't an operation.`,
+					oneOfFix(x, operations)
+				)
+			);
+	});
+}
+
+function validateCollection(
+	key: string,
+	collection: Collection,
+	collections: Collections,
+	internalKeys: string[],
+	report: Report
+) {
+	const path = `content.collections.${key}`;
+
+	if (!identifier.test(key)) {
+		report(
+			path,
+			`'${key}' isn't a valid collection name, only letters, digits and underscores are allowed, starting with a letter.`,
+			`Rename it to '${asIdentifier(key)}', use 'slug' for a different URL.`
+		);
+	}
+
+	if (internalKeys.includes(key)) {
+		report(path, `'${key}' is the name of an internal collection.`, "Rename the collection.");
+	}
+
+	if (!isPlainObject(collection) || !isPlainObject(collection.fields)) {
+		report(
+			`${path}.fields`,
+			"Expected an object of fields.",
+			"Use e.g. { title: { type: 'String' } }."
+		);
+		return;
+	}
+
+	const { id, slug, fields, pagination, populate, transactional } = collection;
+	const idName = id?.name || "id";
+
+	if (id !== undefined && !idTypes.includes(id.type)) {
+		report(`${path}.id.type`, `'${id.type}' isn't an ID type.`, oneOfFix(id.type, idTypes));
+	}
+
+	if (id?.name !== undefined && !identifier.test(id.name)) {
+		report(
+			`${path}.id.name`,
+			`'${id.name}' isn't a valid field name.`,
+			`Rename it to '${asIdentifier(id.name)}'.`
+		);
+	}
+
+	if (slug !== undefined && (typeof slug !== "string" || !/^[\w-]+$/.test(slug))) {
+		report(
+			`${path}.slug`,
+			`'${slug}' isn't a valid slug.`,
+			`Use only letters, digits, "-" and "_", e.g. '${String(slug)
+				.trim()
+				.replace(/[^\w-]+/g, "-")}'.`
+		);
+	}
+
+	for (const [name, field] of Object.entries(fields)) {
+		const fieldPath = `${path}.fields.${name}`;
+
+		if (name === idName) {
+			report(
+				fieldPath,
+				`'${name}' is the name of the collection's ID.`,
+				"Rename the field, or the ID with 'id.name'."
+			);
+		}
+
+		if (field?.type === "relation" && !field.many && fields[`${name}Id`]) {
+			report(
+				`${path}.fields.${name}Id`,
+				`'${name}Id' is the name of the foreign key of the relation '${name}'.`,
+				"Rename the field."
+			);
+		}
+
+		validateField(fieldPath, name, field, collections, report);
+	}
+
+	validateIndexes(path, collection, "uniques", report);
+	validateIndexes(path, collection, "indexes", report);
+	validateWebhooks(`${path}.webhooks`, collection.webhooks, report);
+
+	if (pagination !== undefined) {
+		const { defaultTake, maxTake } = pagination;
+
+		if (defaultTake !== undefined && !isPositiveInt(defaultTake)) {
+			report(
+				`${path}.pagination.defaultTake`,
+				"Expected a positive integer.",
+				"Use e.g. 20."
+			);
+		}
+
+		if (maxTake !== undefined && !isPositiveInt(maxTake)) {
+			report(`${path}.pagination.maxTake`, "Expected a positive integer.", "Use e.g. 100.");
+		}
+
+		if (
+			isPositiveInt(defaultTake) &&
+			isPositiveInt(maxTake) &&
+			Number(defaultTake) > Number(maxTake)
+		) {
+			report(
+				`${path}.pagination`,
+				"'defaultTake' is greater than 'maxTake'.",
+				"Lower 'defaultTake' or raise 'maxTake'."
+			);
+		}
+	}
+
+	if (populate?.maxDepth !== undefined && !isPositiveInt(populate.maxDepth)) {
+		report(`${path}.populate.maxDepth`, "Expected a positive integer.", "Use e.g. 2.");
+	}
+
+	if (transactional !== undefined && typeof transactional !== "boolean") {
+		if (!isPlainObject(transactional)) {
+			report(
+				`${path}.transactional`,
+				"Expected a boolean or an object.",
+				"Use true, or e.g. { timeout: 10000 }."
+			);
+		} else {
+			for (const option of ["maxWait", "timeout"] as const) {
+				const value = transactional[option];
+
+				if (value !== undefined && !isPositiveInt(value)) {
+					report(
+						`${path}.transactional.${option}`,
+						"Expected a positive integer, in milliseconds.",
+						"Use e.g. 10000."
+					);
+				}
+			}
+		}
+	}
+}
+
+function formatConfigIssues(issues: ConfigIssue[]) {
+	return issues.map(({ path, message, fix }) => `  - ${path}: ${message}\n    ${fix}`).join("\n");
+}
+
+/*
+	checks the whole config before the schema is generated,
+	every issue is reported at once, with its path and a suggested fix
+*/
+function validateConfig(
+	options: Options,
+	normalizedCollections: { visible: Collections; internal: Collections }
+) {
+	const issues: ConfigIssue[] = [];
+	const report: Report = (path, message, fix) => issues.push({ path, message, fix });
+	const { visible, internal } = normalizedCollections;
+	const collections = { ...internal, ...visible };
+	const { settings, content } = options;
+
+	const provider = typeof settings?.db?.URI === "string" ? dbProvider(settings.db) : undefined;
+
+	if (!provider || !providers.includes(provider)) {
+		report(
+			"settings.db.URI",
+			`Can't tell the database provider from '${settings?.db?.URI}'.`,
+			"Use a connection string starting with one of: 'postgresql:', 'postgres:', 'mysql:', 'sqlserver:', 'mongodb:', 'mongodb+srv:', 'cockroachdb:', or 'file:' for SQLite."
+		);
+	}
+
+	const { mode, dryRun } = settings?.db?.migrations || {};
+
+	if (mode !== undefined && !migrationModes.includes(mode)) {
+		report(
+			"settings.db.migrations.mode",
+			`'${mode}' isn't a migration mode.`,
+			oneOfFix(mode, migrationModes)
+		);
+	} else if (mode === "dev" && process.env.NODE_ENV === "production") {
+		report(
+			"settings.db.migrations.mode",
+			"'dev' can reset the database and prompts for input, it can't be used in production.",
+			"Use 'deploy' and commit the migrations created in development."
+		);
+	}
+
+	if (dryRun !== undefined && typeof dryRun !== "boolean") {
+		report("settings.db.migrations.dryRun", "Expected a boolean.", "Use true or false.");
+	}
+
+	if (!Number.isInteger(settings?.port) || settings.port < 0 || settings.port > 65535) {
+		report(
+			"settings.port",
+			`'${settings?.port}' isn't a port.`,
+			"Use an integer between 0 and 65535, e.g. 3000."
+		);
+	}
+
+	const { typesPath } = settings || {};
+
+	if (typesPath !== undefined && (typeof typesPath !== "string" || !typesPath)) {
+		report(
+			"settings.typesPath",
+			`'${typesPath}' isn't a file path.`,
+			"Use a path relative to the project, e.g. 'system-panda-types.ts'."
+		);
+	}
+
+	const { openApi } = settings || {};
+
+	if (openApi !== undefined && openApi !== false && !isPlainObject(openApi)) {
+		report(
+			"settings.openApi",
+			"Expected an object or false.",
+			"Use e.g. { docsPage: false }, or false to turn the OpenAPI document off."
+		);
+	}
+
+	const { realtime } = settings || {};
+
+	if (realtime !== undefined && realtime !== false && !isPlainObject(realtime)) {
+		report(
+			"settings.realtime",
+			"Expected an object or false.",
+			"Use e.g. { webSocket: false }, or false to turn the change feeds off."
+		);
+	}
+
+	const { batch } = settings || {};
+
+	if (batch !== undefined && batch !== false) {
+		if (!isPlainObject(batch)) {
+			report(
+				"settings.batch",
+				"Expected an object or false.",
+				"Use e.g. { maxOperations: 20 }, or false to turn the batch endpoint off."
+			);
+		} else {
+			for (const option of ["maxOperations", "maxWait", "timeout"] as const) {
+				if (batch[option] !== undefined && !isPositiveInt(batch[option])) {
+					report(
+						`settings.batch.${option}`,
+						"Expected a positive integer.",
+						"Use e.g. 10000."
+					);
+				}
+			}
+		}
+	}
+
+	const { graphql } = settings || {};
+
+	if (graphql !== undefined && typeof graphql !== "boolean") {
+		report(
+			"settings.graphql",
+			"Expected a boolean.",
+			"Use true to serve the GraphQL endpoint."
+		);
+	}
+
+	if (graphql === true) {
+		const typeNames: Record<string, string> = {};
+
+		for (const cKey of Object.keys(visible)) {
+			const name = typeName(cKey);
+
+			if (graphqlTypeNames.includes(name) || typeNames[name]) {
+				report(
+					`content.collections.${cKey}`,
+					`The GraphQL type name '${name}' is taken by ${
+						typeNames[name] ? `'${typeNames[name]}'` : "the schema"
+					}.`,
+					"Rename the collection, or turn settings.graphql off."
+				);
+			}
+
+			typeNames[name] = cKey;
+		}
+	}
+
+	const { roles } = settings?.authSession || {};
+
+	if (roles !== undefined) {
+		if (!Array.isArray(roles) || roles.length === 0) {
+			report(
+				"settings.authSession.roles",
+				"Expected a list of roles.",
+				"Use e.g. ['admin', 'editor']."
+			);
+		} else {
+			roles
+				.filter(x => typeof x !== "string" || !identifier.test(x))
+				.forEach(x =>
+					report(
+						"settings.authSession.roles",
+						`'${x}' isn't a valid role name.`,
+						`Rename it to '${asIdentifier(String(x))}'.`
+					)
+				);
+
+			if (!roles.includes(ADMIN_ROLE)) {
+				report(
+					"settings.authSession.roles",
+					`The roles don't include '${ADMIN_ROLE}', the role of the initial user.`,
+					`Add '${ADMIN_ROLE}' to the roles.`
+				);
+			}
+		}
+	}
+
+	if (!isPlainObject(content?.collections)) {
+		report(
+			"content.collections",
+			"Expected an object of collections.",
+			"Use e.g. { album: { fields: { ... } } }."
+		);
+	} else {
+		const slugs: Record<string, string> = {};
+
+		for (const [key, collection] of Object.entries(visible)) {
+			validateCollection(key, collection, collections, Object.keys(internal), report);
+
+			const slug = collection?.slug || key;
+
+			if (slugs[slug]) {
+				report(
+					`content.collections.${key}.slug`,
+					`'${slug}' is also the URL of '${slugs[slug]}'.`,
+					"Give one of them a different 'slug'."
+				);
+			}
+
+			slugs[slug] = key;
+		}
+	}
+
+	validateWebhooks("content.webhooks", content?.webhooks, report);
+
+	/*
+		relations are only paired when the rest of the config is valid,
+		the pairing relies on every "ref" pointing to an existing collection
+	*/
+	if (issues.length === 0) {
+		const { relations, issues: relationIssues } = resolveRelations(collections);
+
+		issues.push(...relationIssues);
+
+		if (relationIssues.length === 0) validateIndexedRelations(visible, relations, report);
+	}
+
+	if (issues.length > 0) {
+		throw new SystemPandaError({
+			level: "error",
+			message: `Invalid config, the database was left untouched:\n${formatConfigIssues(
+				issues
+			)}`,
+		});
+	}
+}
+
+export { validateConfig, formatConfigIssues };
@@ -0,0 +1,193 @@
+import {
+	Collection,
+	FieldValidation,
+	InputData,
+	RecordData,
+	PrismaModel,
+	PrismaModelField,
+	SystemPandaError,
+	getDataStore,
+} from "../util/index.js";
+
+const formats: Record<NonNullable<FieldValidation["format"]>, (value: string) => boolean> = {
+	email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+	url: value => {
+		try {
+			return ["http:", "https:"].includes(new URL(value).protocol);
+		} catch (_) {
+			return false;
+		}
+	},
+};
+
+async function validateValue(rules: FieldValidation, value: unknown, data: InputData) {
+	const { minLength, maxLength, min, max, pattern, format, oneOf, validate } = rules;
+	const errors: string[] = [];
+	const hasStringRules = [minLength, maxLength, pattern, format].some(x => x !== undefined);
+	const hasNumberRules = [min, max].some(x => x !== undefined);
+
+	if (hasStringRules && typeof value !== "string") {
+		errors.push("Must be a string.");
+	} else if (typeof value === "string") {
+		if (minLength !== undefined && value.length < minLength) {
+			errors.push(`Must be at least ${minLength} characters long.`);
+		}
+		if (maxLength !== undefined && value.length > maxLength) {
+			errors.push(`Must be at most ${maxLength} characters long.`);
+		}
+		if (pattern !== undefined && !new RegExp(pattern).test(value)) {
+			errors.push(`Must match the pattern ${new RegExp(pattern)}.`);
+		}
+		if (format && !formats[format](value)) {
+			errors.push(`Must be a valid ${format}.`);
+		}
+	}
+
+	if (hasNumberRules && typeof value !== "number") {
+		errors.push("Must be a number.");
+	} else if (typeof value === "number") {
+		if (min !== undefined && value < min) errors.push(`Must be at least ${min}.`);
+		if (max !== undefined && value > max) errors.push(`Must be at most ${max}.`);
+	}
+
+	if (oneOf && !oneOf.includes(value as string | number | boolean)) {
+		errors.push(`Must be one of: ${oneOf.map(x => JSON.stringify(x)).join(", ")}.`);
+	}
+
+	if (validate) {
+		const result = await validate(value, data);
+
+		if (result !== true) errors.push(typeof result === "string" ? result : "Invalid value.");
+	}
+
+	return errors;
+}
+
+/*
+	the rules apply to every item of a list, "validate" to the whole list
+*/
+async function validateList(
+	{ validate, ...rules }: FieldValidation,
+	value: unknown,
+	data: InputData
+) {
+	if (!Array.isArray(value)) return ["Must be a list."];
+
+	const errors: string[] = [];
+
+	for (const [i, item] of value.entries()) {
+		const itemErrors = await validateValue(rules, item, data);
+
+		errors.push(...itemErrors.map(x => `Item ${i}: ${x}`));
+	}
+
+	if (validate) errors.push(...(await validateValue({ validate }, value, data)));
+
+	return errors;
+}
+
+/*
+	a field has to be supplied when the database can't fill it in,
+	lists are empty instead
+*/
+const isRequired = (field: PrismaModelField) =>
+	!field.optional && !field.list && !field.isUpdatedAt && field.default === undefined;
+
+/*
+	checks one record against the generated model (unknown fields, required fields, enums)
+	and the validation rules of the collection's fields,
+	partial records (PATCH) are only checked for the fields they contain
+*/
+async function recordErrors(
+	collection: Collection,
+	model: PrismaModel,
+	data: RecordData,
+	partial: boolean
+) {
+	const errors: Record<string, string[]> = {};
+	const enums = getDataStore().schema?.enums || {};
+
+	for (const key of Object.keys(data || {})) {
+		if (!model.fields[key]) errors[key] = ["Unknown field."];
+	}
+
+	for (const field of Object.values(model.fields)) {
+		if (field.kind === "object") continue;
+
+		const value = data?.[field.name];
+		const isMissing = value === undefined || value === null;
+
+		if (isMissing) {
+			if (!partial && isRequired(field)) errors[field.name] = ["Required."];
+			continue;
+		}
+
+		if (field.kind === "enum" && !field.list && !enums[field.type]?.includes(value as string)) {
+			errors[field.name] = [`Must be one of: ${enums[field.type]?.join(", ")}.`];
+			continue;
+		}
+
+		const configField = collection.fields[field.name];
+
+		if (!configField || configField.type === "relation") continue;
+		if (!configField.list && !configField.validation) continue;
+
+		const fieldErrors = configField.list
+			? await validateList(configField.validation || {}, value, data)
+			: await validateValue(configField.validation || {}, value, data);
+
+		if (fieldErrors.length > 0) errors[field.name] = fieldErrors;
+	}
+
+	return errors;
+}
+
+/*
+	records of an array are prefixed with their index in the error map,
+	e.g. "1.title"
+*/
+async function validateFields(
+	collection: Collection,
+	model: PrismaModel,
+	data: RecordData | RecordData[],
+	partial: boolean
+) {
+	let errors: Record<string, string[]> = {};
+
+	if (Array.isArray(data)) {
+		for (const [i, record] of data.entries()) {
+			const indexed = Object.entries(
+				await recordErrors(collection, model, record, partial)
+			).map(([fieldName, fieldErrors]) => [`${i}.${fieldName}`, fieldErrors]);
+
+			errors = { ...errors, ...Object.fromEntries(indexed) };
+		}
+	} else {
+		errors = await recordErrors(collection, model, data, partial);
+	}
+
+	if (Object.keys(errors).length > 0) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 422,
+			message: "Validation failed.",
+			errors,
+		});
+	}
+}
+
+/*
+	validation rules as JSON for the collections metadata,
+	patterns as their source and custom validators as a flag
+*/
+function serializeValidation({ pattern, validate, ...rules }: FieldValidation) {
+	return {
+		...rules,
+		...(pattern !== undefined && {
+			pattern: pattern instanceof RegExp ? pattern.source : pattern,
+		}),
+		...(validate && { custom: true }),
+	};
+}
+
+export { validateFields, serializeValidation };
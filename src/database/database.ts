@@ -1,14 +1,26 @@
-import { getConfigStore, setDataStore } from "../util/index.js";
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getConfigStore, setDataStore, userProjectDir } from "../util/index.js";
 import { seed } from "./seed.js";
 import { execPrismaScripts } from "./execPrismaScripts.js";
-import { collectionFromModel } from "../collections/collectionFromModel.js";
+import { parsePrismaSchema } from "../collections/parsePrismaSchema.js";
 import { makePrismaModel } from "../collections/makePrismaModel.js";
+import { generateTypes } from "../collections/generateTypes.js";
 
 async function database() {
-	const db = getConfigStore().settings.db;
+	const { db, typesPath } = getConfigStore().settings;
 	const generatedSchemaString = makePrismaModel(db);
-	await execPrismaScripts(generatedSchemaString);
-	const models = collectionFromModel(generatedSchemaString);
+
+	if (typesPath && process.env.NODE_ENV !== "production") {
+		console.log("🐼 Generating collection types...");
+		await writeFile(path.resolve(userProjectDir, typesPath), generateTypes(db));
+	}
+
+	const applied = await execPrismaScripts(generatedSchemaString, db);
+
+	if (!applied) return false;
+
+	const schema = parsePrismaSchema(generatedSchemaString);
 
 	console.log("🐼 Connecting to database...");
 	const { PrismaClient } = await import("@prisma/client");
@@ -18,8 +30,10 @@ async function database() {
 		datasources: { db: { url: db.URI } },
 	});
 
-	setDataStore({ prisma, models });
+	setDataStore({ prisma, schema });
 	await seed();
+
+	return true;
 }
 
 export { database };
@@ -0,0 +1,38 @@
+import { getConfigStore, getDataStore } from "../util/stores.js";
+import { listStorage } from "../util/helpers.js";
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> =>
+	typeof x === "object" && x !== null && !Array.isArray(x);
+
+function decodeRecords(cKey: string, data: unknown): unknown {
+	if (Array.isArray(data)) return data.map(x => decodeRecords(cKey, x));
+	if (!isPlainObject(data)) return data;
+
+	const { internal, visible } = getDataStore().normalizedCollections;
+	const fields = { ...internal, ...visible }[cKey]?.fields || {};
+
+	return Object.fromEntries(
+		Object.entries(data).map(([key, value]) => {
+			const field = fields[key];
+
+			if (field?.type === "relation") {
+				return [key, decodeRecords(field.ref.split(".")[0], value)];
+			}
+			if (field?.list && typeof value === "string") return [key, JSON.parse(value)];
+
+			return [key, value];
+		})
+	);
+}
+
+/*
+	lists stored as JSON text are read back as lists,
+	in the records and in the records of their included relations
+*/
+function decodeLists<T>(cKey: string, data: T): T {
+	if (listStorage(getConfigStore().settings.db) !== "text") return data;
+
+	return decodeRecords(cKey, data) as T;
+}
+
+export { decodeLists };
@@ -1,42 +1,120 @@
 import { Options as ExecaOptions, execa } from "execa";
-import { SystemPandaError, pathExists, userProjectDir } from "../util/index.js";
-import { mkdir, writeFile } from "node:fs/promises";
+import {
+	Database,
+	Migrations,
+	MigrationMode,
+	SystemPandaError,
+	pathExists,
+	userProjectDir,
+} from "../util/index.js";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import path from "node:path";
 
-async function execPrismaScripts(prismaSchema: string) {
-	const options: ExecaOptions = {
-		reject: false,
-		stdio: ["inherit", "inherit", "pipe"],
-	};
+const options: ExecaOptions = {
+	reject: false,
+	stdio: ["inherit", "inherit", "pipe"],
+};
+
+async function prisma(db: Database, args: string[], execaOptions: ExecaOptions = options) {
+	console.log(`🐼 Executing: 'prisma ${args.filter(x => !x.startsWith("-")).join(" ")}'...`);
+	const cmd = await execa("npx", ["prisma", ...args], {
+		...execaOptions,
+		env: { DATABASE_URL: db.URI },
+	});
+
+	/* "migrate diff --exit-code" exits with 2 when there are changes, that's not a failure */
+	if (cmd.failed && cmd.exitCode !== 2) {
+		throw new SystemPandaError({ level: "error", message: cmd.stderr?.toString() });
+	}
+
+	return cmd;
+}
+
+// what "migrate diff" reports between the database and a schema, as a summary or as SQL
+const diffArgs = (schemaPath: string, script: boolean) => [
+	"migrate",
+	"diff",
+	`--from-schema-datasource=${schemaPath}`,
+	`--to-schema-datamodel=${schemaPath}`,
+	script ? "--script" : "--exit-code",
+];
+
+const migrationMode = (migrations?: Migrations): MigrationMode =>
+	migrations?.mode || (process.env.NODE_ENV === "production" ? "deploy" : "dev");
+
+/*
+	the generated schema goes to a throwaway file so prisma/schema.prisma
+	keeps matching what was last applied
+*/
+async function dryRun(db: Database, prismaSchema: string) {
+	const dir = await mkdtemp(path.join(tmpdir(), "system-panda-"));
+	const schemaPath = path.join(dir, "schema.prisma");
+	const piped: ExecaOptions = { reject: false };
+
+	try {
+		await writeFile(schemaPath, prismaSchema);
+
+		const summary = await prisma(db, diffArgs(schemaPath, false), piped);
+		const script = await prisma(db, diffArgs(schemaPath, true), piped);
+
+		console.log(`🐼 Schema changes:\n${summary.stdout}\n`);
+		console.log(`🐼 SQL that would be run:\n${script.stdout}\n`);
+		console.log("🐼 Dry run, nothing was applied.");
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+/*
+	applies the generated schema according to settings.db.migrations,
+	returns false on a dry run, when nothing was applied
+*/
+async function execPrismaScripts(prismaSchema: string, db: Database) {
+	const mode = migrationMode(db.migrations);
+
+	if (db.migrations?.dryRun) {
+		await dryRun(db, prismaSchema);
+		return false;
+	}
 
 	console.log("🐼 Checking for Prisma files...");
 	const prismaDir = `${userProjectDir}/prisma`;
+	const schemaPath = path.resolve(`${prismaDir}/schema.prisma`);
 	if (!(await pathExists(prismaDir))) await mkdir(prismaDir);
-	await writeFile(path.resolve(`${prismaDir}/schema.prisma`), prismaSchema);
+	await writeFile(schemaPath, prismaSchema);
 
 	const formatSchema = await execa("npx", ["prisma", "format"]);
 	if (formatSchema.failed)
 		throw new SystemPandaError({ level: "error", message: formatSchema.stderr?.toString() });
 
-	console.log("🐼 Executing: 'prisma migrate dev'...");
-	const migrateCmd = await execa(
-		"npx",
-		["prisma", "migrate", "dev", `--schema=${userProjectDir}/prisma/schema.prisma`],
-		options
-	);
-	if (migrateCmd.failed) {
-		throw new SystemPandaError({ level: "error", message: migrateCmd.stderr?.toString() });
-	}
+	if (mode === "dev") {
+		await prisma(db, ["migrate", "dev", `--schema=${schemaPath}`]);
+	} else if (mode === "deploy") {
+		await prisma(db, ["migrate", "deploy", `--schema=${schemaPath}`]);
+
+		/*
+			"migrate deploy" only knows about the committed migrations,
+			if the database still differs from the config, a migration is missing
+		*/
+		const pending = await prisma(db, diffArgs(schemaPath, false), {
+			...options,
+			stdio: "pipe",
+		});
 
-	console.log("🐼 Executing: 'prisma generate'...");
-	const generateCmd = await execa(
-		"npx",
-		["prisma", "generate", `--schema=${userProjectDir}/prisma/schema.prisma`],
-		options
-	);
-	if (generateCmd.failed) {
-		throw new SystemPandaError({ level: "error", message: generateCmd.stderr?.toString() });
+		if (pending.exitCode === 2) {
+			throw new SystemPandaError({
+				level: "error",
+				message: `The collections config has changes that no committed migration covers:\n${pending.stdout}\nCreate the migration in development (migrations mode 'dev') and commit it.`,
+			});
+		}
+	} else if (mode === "push") {
+		await prisma(db, ["db", "push", "--skip-generate", `--schema=${schemaPath}`]);
 	}
+
+	await prisma(db, ["generate", `--schema=${schemaPath}`]);
+
+	return true;
 }
 
 export { execPrismaScripts };
@@ -1,5 +1,8 @@
 export * from "./database.js";
 export * from "./execPrismaScripts.js";
 export * from "./mapQuery.js";
+export * from "./mapRelationWrites.js";
+export * from "./decodeLists.js";
 export * from "./PrismaSessionStore.js";
 export * from "./seed.js";
+export * from "./introspect.js";
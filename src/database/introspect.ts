@@ -0,0 +1,88 @@
+import { execa } from "execa";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { SystemPandaError, Database, cmsNamePrefix, dbProvider } from "../util/index.js";
+import { collectionsFromSchema } from "../collections/index.js";
+import { parsePrismaSchema } from "../collections/parsePrismaSchema.js";
+
+/*
+	"prisma db pull" needs a schema with a datasource, a throwaway one is used
+	so the project's prisma/schema.prisma is left untouched
+*/
+async function pullSchema(db: Database) {
+	const dir = await mkdtemp(path.join(tmpdir(), "system-panda-"));
+	const schemaPath = path.join(dir, "schema.prisma");
+
+	try {
+		await writeFile(
+			schemaPath,
+			`datasource db {\n\tprovider = "${dbProvider(db)}"\n\turl = env("DATABASE_URL")\n}\n`
+		);
+
+		const pullCmd = await execa(
+			"npx",
+			["prisma", "db", "pull", "--print", `--schema=${schemaPath}`],
+			{
+				reject: false,
+				env: { DATABASE_URL: db.URI },
+			}
+		);
+
+		if (pullCmd.failed) {
+			throw new SystemPandaError({ level: "error", message: pullCmd.stderr?.toString() });
+		}
+
+		return pullCmd.stdout;
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+const toTypeScript = (value: unknown) =>
+	JSON.stringify(value, null, 4).replace(/^(\s*)"([A-Za-z_]\w*)":/gm, "$1$2:");
+
+/*
+	runs introspection against the database and converts its tables to collections,
+	as an object, and as the source of a TypeScript or JSON config file,
+	everything that couldn't be represented is listed in the issues
+*/
+async function introspect(db: Database, format: "ts" | "json" = "ts") {
+	const { collections, issues } = collectionsFromSchema(parsePrismaSchema(await pullSchema(db)));
+	let source;
+
+	if (format === "json") {
+		source = JSON.stringify(collections, null, 4) + "\n";
+	} else {
+		const issueLines = issues.flatMap(({ path, message, fix }) => [
+			`\t- ${path}: ${message}`,
+			`\t  ${fix}`,
+		]);
+
+		const issueComment: string[] = [];
+
+		if (issues.length > 0) {
+			issueComment.push(
+				"/*",
+				"\tReview before use, these couldn't be represented exactly:",
+				...issueLines,
+				"*/"
+			);
+		}
+
+		source = [
+			`// Generated by "${cmsNamePrefix} introspect" from the tables of the database.`,
+			`import type { Collections } from "${cmsNamePrefix}";`,
+			"",
+			...issueComment,
+			`const collections: Collections = ${toTypeScript(collections)};`,
+			"",
+			"export default collections;",
+			"",
+		].join("\n");
+	}
+
+	return { collections, issues, source };
+}
+
+export { introspect };
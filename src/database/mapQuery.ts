@@ -1,37 +1,803 @@
 import { SystemPandaError } from "../util/SystemPandaError.js";
+import { POPULATE } from "../util/constants.js";
+import { getConfigStore, getDataStore } from "../util/stores.js";
+import { listStorage } from "../util/helpers.js";
+import {
+	AggregateFunction,
+	MappedAggregateQuery,
+	MappedQuery,
+	QueryField,
+	RelationQueryField,
+	ScalarQueryField,
+} from "../util/types.js";
 
-const mapQuery = (query: object) =>
-	Object.fromEntries(
-		Object.entries(query).map(([key, value]) => {
-			let newValue = value;
-
-			if (key === "where") {
-				try {
-					newValue = JSON.parse(newValue);
-				} catch (error) {
-					throw new SystemPandaError({
-						level: "informative",
-						message: "Malformed JSON in the WHERE clause.",
-						status: 400,
-					});
-				}
-			} else if (newValue.includes(",")) {
-				if (key === "distinct") {
-					newValue = newValue.split(",");
-				} else {
-					newValue = Object.fromEntries(
-						newValue.split(",").map((subPair: string) => subPair.split("-"))
-					);
+const commonOperators = ["equals", "not", "in", "notIn", "isNull"];
+const comparisonOperators = ["lt", "lte", "gt", "gte"];
+const operatorsByType: Record<ScalarQueryField["type"], string[]> = {
+	String: [
+		...commonOperators,
+		...comparisonOperators,
+		"contains",
+		"startsWith",
+		"endsWith",
+		"mode",
+	],
+	Int: [...commonOperators, ...comparisonOperators],
+	BigInt: [...commonOperators, ...comparisonOperators],
+	Float: [...commonOperators, ...comparisonOperators],
+	Decimal: [...commonOperators, ...comparisonOperators],
+	DateTime: [...commonOperators, ...comparisonOperators],
+	Boolean: ["equals", "not", "isNull"],
+	Enum: commonOperators,
+	Json: [],
+};
+const listOperators = ["has", "hasSome", "hasEvery"];
+const numberTypes = ["Int", "BigInt", "Float", "Decimal"];
+// the field types every aggregate function can be applied to, "_count" takes any field
+const aggregateTypes: Record<Exclude<AggregateFunction, "_count">, string[]> = {
+	_sum: numberTypes,
+	_avg: numberTypes,
+	_min: [...numberTypes, "String", "DateTime", "Enum"],
+	_max: [...numberTypes, "String", "DateTime", "Enum"],
+};
+const aggregateFunctions = ["_count", ...Object.keys(aggregateTypes)] as AggregateFunction[];
+
+const badRequest = (message: string) =>
+	new SystemPandaError({ level: "informative", status: 400, message });
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> =>
+	typeof x === "object" && x !== null && !Array.isArray(x);
+
+/*
+	everything that can be queried on a collection, as generated in the schema:
+	its ID, its fields, and the foreign keys of the relations that hold them,
+	Json and String fields that store a list are taken from the collection's config
+*/
+function queryFields(cKey: string) {
+	const { schema, normalizedCollections } = getDataStore();
+	const { internal, visible } = normalizedCollections;
+	const configFields = { ...internal, ...visible }[cKey]?.fields || {};
+	const result: Record<string, QueryField> = {};
+
+	for (const field of Object.values(schema?.models[cKey]?.fields || {})) {
+		const { name, type, list, optional, kind } = field;
+		const configField = configFields[name];
+		const storedList =
+			configField && configField.type !== "relation" && configField.list
+				? configField
+				: undefined;
+		const itemType = storedList?.type === "number" ? storedList.subtype : storedList?.type;
+
+		if (kind === "object") {
+			result[name] = { kind: "relation", ref: type, many: list };
+		} else if (kind === "enum" && !list) {
+			result[name] = {
+				kind: "scalar",
+				type: "Enum",
+				optional,
+				values: schema?.enums[type],
+			};
+		} else if (kind === "scalar" && type !== "Bytes") {
+			result[name] = {
+				kind: "scalar",
+				type: (itemType || type) as ScalarQueryField["type"],
+				optional,
+				...(list && { list: "native" }),
+				...(storedList && { list: listStorage(getConfigStore().settings.db) }),
+			};
+		}
+	}
+
+	return result;
+}
+
+/*
+	only collections that are served by the REST API can be
+	reached through relations, internal ones are never exposed
+*/
+function relatedCollection(param: string, ref: string) {
+	if (!getConfigStore().content.collections[ref]) {
+		throw badRequest(`'${param}' refers to a collection that can't be queried.`);
+	}
+
+	return ref;
+}
+
+function coerceValue(param: string, field: ScalarQueryField, value: unknown) {
+	if (typeof value !== "string") throw badRequest(`Expected a single value for '${param}'.`);
+
+	if (field.type === "Int" || field.type === "BigInt") {
+		if (!/^-?\d+$/.test(value)) throw badRequest(`'${param}' must be an integer.`);
+
+		return field.type === "Int" ? Number(value) : BigInt(value);
+	}
+
+	if (field.type === "Float" || field.type === "Decimal") {
+		if (value.trim() === "" || !Number.isFinite(Number(value))) {
+			throw badRequest(`'${param}' must be a number.`);
+		}
+
+		// decimals are passed as strings to keep their precision
+		return field.type === "Float" ? Number(value) : value;
+	}
+
+	if (field.type === "Boolean") {
+		if (value !== "true" && value !== "false") {
+			throw badRequest(`'${param}' must be either 'true' or 'false'.`);
+		}
+
+		return value === "true";
+	}
+
+	if (field.type === "Enum" && !field.values?.includes(value)) {
+		throw badRequest(`'${param}' must be one of: ${field.values?.join(", ")}.`);
+	}
+
+	if (field.type === "DateTime") {
+		if (Number.isNaN(Date.parse(value))) {
+			throw badRequest(`'${param}' must be an ISO 8601 date.`);
+		}
+
+		return new Date(value);
+	}
+
+	return value;
+}
+
+const toList = (value: unknown) =>
+	Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [value];
+
+function scalarFilter(param: string, field: ScalarQueryField, value: unknown) {
+	if (field.type === "Json") {
+		throw badRequest(
+			`'${param}' is a Json field and can't be filtered with query parameters, use 'where' instead.`
+		);
+	}
+
+	if (Array.isArray(value)) {
+		return { in: value.map(x => coerceValue(param, field, x)) };
+	}
+
+	if (typeof value !== "object" || value === null) {
+		return { equals: coerceValue(param, field, value) };
+	}
+
+	const filter: Record<string, unknown> = {};
+
+	for (const [operator, operand] of Object.entries(value)) {
+		const opParam = `${param}[${operator}]`;
+
+		if (!operatorsByType[field.type].includes(operator)) {
+			throw badRequest(
+				`Unknown operator in '${opParam}', '${
+					field.type
+				}' fields support: ${operatorsByType[field.type].join(", ")}.`
+			);
+		}
+
+		if (operator === "in" || operator === "notIn") {
+			filter[operator] = toList(operand).map(x => coerceValue(opParam, field, x));
+		} else if (operator === "isNull") {
+			if (!field.optional) throw badRequest(`'${param}' is required and can't be null.`);
+			if (operand !== "true" && operand !== "false") {
+				throw badRequest(`'${opParam}' must be either 'true' or 'false'.`);
+			}
+
+			filter[operand === "true" ? "equals" : "not"] = null;
+		} else if (operator === "mode") {
+			if (operand !== "insensitive" && operand !== "default") {
+				throw badRequest(`'${opParam}' must be either 'insensitive' or 'default'.`);
+			}
+
+			filter.mode = operand;
+		} else {
+			filter[operator] = coerceValue(opParam, field, operand);
+		}
+	}
+
+	return filter;
+}
+
+function relationFilter(
+	param: string,
+	field: RelationQueryField,
+	value: unknown
+): Record<string, unknown> {
+	const target = relatedCollection(param, field.ref);
+
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw badRequest(
+			`'${param}' is a relation, filter it by its fields, e.g. '${param}[id]=1'.`
+		);
+	}
+
+	const entries = Object.entries(value);
+
+	if (field.many) {
+		const invalid = entries.find(([key]) => !["some", "every", "none"].includes(key));
+
+		if (invalid) {
+			throw badRequest(
+				`'${param}' is a list relation, filter it with '${param}[some]', '${param}[every]' or '${param}[none]'.`
+			);
+		}
+
+		return Object.fromEntries(
+			entries.map(([key, subValue]) => [
+				key,
+				whereFilter(`${param}[${key}]`, target, subValue),
+			])
+		);
+	}
+
+	if ("isNull" in value) {
+		const { isNull } = value as Record<string, unknown>;
+
+		if (isNull !== "true" && isNull !== "false") {
+			throw badRequest(`'${param}[isNull]' must be either 'true' or 'false'.`);
+		}
+
+		return { [isNull === "true" ? "is" : "isNot"]: null };
+	}
+
+	if (entries.every(([key]) => key === "is" || key === "isNot")) {
+		return Object.fromEntries(
+			entries.map(([key, subValue]) => [
+				key,
+				whereFilter(`${param}[${key}]`, target, subValue),
+			])
+		);
+	}
+
+	return { is: whereFilter(param, target, value) };
+}
+
+// in JSON text, an item is delimited by the brackets or commas around it
+const textItemConditions = (name: string, item: unknown) => {
+	const json = JSON.stringify(item);
+
+	return [`[${json}]`, `[${json},`, `,${json},`, `,${json}]`].map(x => ({
+		[name]: { contains: x },
+	}));
+};
+
+/*
+	native lists use Prisma's list filters, Json arrays use "array_contains",
+	with "hasSome" as one "array_contains" per value,
+	lists stored as JSON text are searched for the JSON of the values
+*/
+function listCondition(param: string, name: string, field: ScalarQueryField, value: unknown) {
+	const elementField = { ...field, list: undefined };
+
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw badRequest(
+			`'${param}' is a list, filter it with '${param}[has]', '${param}[hasSome]' or '${param}[hasEvery]'.`
+		);
+	}
+
+	const conditions = Object.entries(value).map(([operator, operand]) => {
+		const opParam = `${param}[${operator}]`;
+
+		if (!listOperators.includes(operator)) {
+			throw badRequest(
+				`Unknown operator in '${opParam}', list fields support: ${listOperators.join(
+					", "
+				)}.`
+			);
+		}
+
+		const values = (operator === "has" ? [operand] : toList(operand)).map(x => {
+			const coerced = coerceValue(opParam, elementField, x);
+
+			if (field.list === "native") return coerced;
+			// dates are stored as ISO strings and numbers as JSON numbers
+			if (coerced instanceof Date) return coerced.toISOString();
+
+			return typeof coerced === "bigint" || field.type === "Decimal"
+				? Number(coerced)
+				: coerced;
+		});
+
+		if (field.list === "native") {
+			return { [name]: { [operator]: operator === "has" ? values[0] : values } };
+		}
+
+		if (field.list === "text") {
+			return operator === "hasSome"
+				? { OR: values.flatMap(x => textItemConditions(name, x)) }
+				: combineConditions(values.map(x => ({ OR: textItemConditions(name, x) })));
+		}
+
+		if (operator === "hasSome") {
+			return { OR: values.map(x => ({ [name]: { array_contains: [x] } })) };
+		}
+
+		return { [name]: { array_contains: values } };
+	});
+
+	return combineConditions(conditions);
+}
+
+/*
+	conditions on different keys are merged into one object,
+	the others (e.g. two "OR"s) are combined with "AND"
+*/
+function combineConditions(conditions: Record<string, unknown>[]) {
+	const keys = conditions.flatMap(x => Object.keys(x));
+
+	if (new Set(keys).size === keys.length) return Object.assign({}, ...conditions);
+
+	return { AND: conditions };
+}
+
+function fieldCondition(
+	param: string,
+	name: string,
+	field: QueryField,
+	value: unknown
+): Record<string, unknown> {
+	if (field.kind === "relation") return { [name]: relationFilter(param, field, value) };
+	if (field.list) return listCondition(param, name, field, value);
+
+	return { [name]: scalarFilter(param, field, value) };
+}
+
+function whereFilter(param: string, cKey: string, value: unknown) {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw badRequest(`'${param}' must be filtered by field, e.g. '${param}[id]=1'.`);
+	}
+
+	const fields = queryFields(cKey);
+
+	return combineConditions(
+		Object.entries(value).map(([key, subValue]) => {
+			const subParam = `${param}[${key}]`;
+
+			if (!fields[key]) throw badRequest(`Unknown field '${key}' in '${subParam}'.`);
+
+			return fieldCondition(subParam, key, fields[key], subValue);
+		})
+	);
+}
+
+/*
+	include trees are merged so a relation that's filtered through twice is checked once,
+	"true" is a relation without nested ones
+*/
+function mergeIncludes(target: Record<string, unknown>, tree: Record<string, unknown>) {
+	for (const [key, value] of Object.entries(tree)) {
+		const current = target[key];
+
+		if (!isPlainObject(current)) target[key] = value;
+		else if (isPlainObject(value)) {
+			mergeIncludes(
+				current.include as Record<string, unknown>,
+				value.include as Record<string, unknown>
+			);
+		}
+	}
+
+	return target;
+}
+
+/*
+	a Prisma where clause, checked against the collection's fields like the filters are,
+	returns the relations it filters through shaped like "include",
+	so their read access is checked the same way, e.g.
+	{ relation_album: { title: { startsWith: "P" } } } gives { relation_album: true }
+*/
+function whereRelations(param: string, cKey: string, where: unknown) {
+	const relations: Record<string, unknown> = {};
+
+	if (where === undefined) return relations;
+	if (!isPlainObject(where)) throw badRequest(`'${param}' must be an object of fields.`);
+
+	const fields = queryFields(cKey);
+
+	for (const [key, value] of Object.entries(where)) {
+		const subParam = `${param}.${key}`;
+
+		if (["AND", "OR", "NOT"].includes(key)) {
+			for (const item of Array.isArray(value) ? value : [value]) {
+				mergeIncludes(relations, whereRelations(subParam, cKey, item));
+			}
+			continue;
+		}
+
+		const field = fields[key];
+
+		if (!field) throw badRequest(`Unknown field '${key}' in '${param}'.`);
+		if (field.kind === "scalar") continue;
+
+		const target = relatedCollection(subParam, field.ref);
+		const operators = field.many ? ["some", "every", "none"] : ["is", "isNot"];
+		const isOperators =
+			isPlainObject(value) && Object.keys(value).every(x => operators.includes(x));
+
+		if (field.many && !isOperators) {
+			throw badRequest(
+				`'${subParam}' is a list relation, filter it with 'some', 'every' or 'none'.`
+			);
+		}
+
+		const nested: Record<string, unknown> = {};
+
+		for (const nestedWhere of isOperators ? Object.values(value) : [value]) {
+			if (nestedWhere !== null) {
+				mergeIncludes(nested, whereRelations(subParam, target, nestedWhere));
+			}
+		}
+
+		mergeIncludes(relations, {
+			[key]: Object.keys(nested).length > 0 ? { include: nested } : true,
+		});
+	}
+
+	return relations;
+}
+
+/*
+	a Prisma where clause of a request body, validated by whereRelations,
+	with the filters of lists that aren't native mapped like the query parameters' are,
+	since Prisma's list filters only apply to native lists
+*/
+function listWhere(param: string, cKey: string, where: unknown): unknown {
+	if (!isPlainObject(where)) return where;
+
+	const fields = queryFields(cKey);
+
+	return combineConditions(
+		Object.entries(where).map(([key, value]) => {
+			const subParam = `${param}.${key}`;
+			const field = fields[key];
+
+			if (["AND", "OR", "NOT"].includes(key)) {
+				return {
+					[key]: Array.isArray(value)
+						? value.map(x => listWhere(subParam, cKey, x))
+						: listWhere(subParam, cKey, value),
+				};
+			}
+
+			if (field?.kind === "relation" && isPlainObject(value)) {
+				const operators = ["some", "every", "none", "is", "isNot"];
+
+				if (!Object.keys(value).every(x => operators.includes(x))) {
+					return { [key]: listWhere(subParam, field.ref, value) };
 				}
-			} else if (newValue.includes("-")) {
-				const [subKey, subValue] = newValue.split("-");
-				newValue = { [subKey]: subValue };
+
+				return {
+					[key]: Object.fromEntries(
+						Object.entries(value).map(([op, nested]) => [
+							op,
+							listWhere(`${subParam}.${op}`, field.ref, nested),
+						])
+					),
+				};
+			}
+
+			if (field?.kind !== "scalar" || !field.list || field.list === "native") {
+				return { [key]: value };
 			}
 
-			newValue = isNaN(newValue) ? newValue : Number(newValue);
+			if (!isPlainObject(value)) return listCondition(subParam, key, field, value);
 
-			return [key, newValue];
+			// the values as query parameters give them
+			const params = Object.entries(value).map(([op, x]) => [
+				op,
+				Array.isArray(x) ? x.map(String) : String(x),
+			]);
+
+			return listCondition(subParam, key, field, Object.fromEntries(params));
 		})
 	);
+}
+
+/*
+	comma-separated list of field names,
+	e.g. "select=id,title" or "distinct=year,title"
+*/
+function fieldList(param: string, value: unknown) {
+	if (Array.isArray(value)) value = value.join(",");
+	if (typeof value !== "string" || value.trim() === "") {
+		throw badRequest(`'${param}' must be a comma-separated list of fields.`);
+	}
+
+	return value.split(",").map(x => x.trim());
+}
+
+function scalarFieldList(param: string, fields: Record<string, QueryField>, value: unknown) {
+	return fieldList(param, value).map(name => {
+		if (fields[name]?.kind !== "scalar") {
+			throw badRequest(`Unknown field '${name}' in '${param}'.`);
+		}
+
+		return name;
+	});
+}
+
+/*
+	"orderBy=year:desc,title" or "orderBy=relation_album.title:asc",
+	the direction defaults to "asc"
+*/
+function orderByList(cKey: string, value: unknown) {
+	return fieldList("orderBy", value).map(item => {
+		const [path, direction = "asc", ...rest] = item.split(":");
+
+		if (rest.length > 0 || !["asc", "desc"].includes(direction)) {
+			throw badRequest(`Invalid direction in 'orderBy': '${item}', use 'asc' or 'desc'.`);
+		}
+
+		const keys = path.split(".");
+		let current = cKey;
+		const nested: Record<string, unknown> = {};
+		let target = nested;
+
+		keys.forEach((key, i) => {
+			const field = queryFields(current)[key];
+			const isLast = i === keys.length - 1;
+
+			if (!field) throw badRequest(`Unknown field '${key}' in 'orderBy': '${item}'.`);
+
+			if (field.kind === "scalar") {
+				if (!isLast || field.type === "Json" || field.list) {
+					throw badRequest(`Can't order by '${path}' in 'orderBy'.`);
+				}
+
+				target[key] = direction;
+			} else {
+				if (field.many || isLast) {
+					throw badRequest(
+						`Can't order by '${path}' in 'orderBy', only fields of single relations can be ordered by.`
+					);
+				}
+
+				current = relatedCollection("orderBy", field.ref);
+				target[key] = {};
+				target = target[key] as Record<string, unknown>;
+			}
+		});
+
+		return nested;
+	});
+}
+
+/*
+	"include=relation_album,relation_album.relation_song" becomes
+	{ relation_album: { include: { relation_song: true } } },
+	nested no deeper than the collection's populate.maxDepth
+*/
+function includeTree(
+	param: string,
+	cKey: string,
+	value: unknown,
+	include: Record<string, unknown> = {}
+) {
+	const { populate } = getConfigStore().content.collections[cKey] || {};
+	const maxDepth = populate?.maxDepth ?? POPULATE.MAX_DEPTH;
+
+	for (const path of fieldList(param, value)) {
+		const keys = path.split(".");
+		let current = cKey;
+		let target = include;
+
+		if (keys.length > maxDepth) {
+			throw badRequest(
+				`'${path}' in '${param}' is nested deeper than the maximum depth of ${maxDepth}.`
+			);
+		}
+
+		keys.forEach((key, i) => {
+			const field = queryFields(current)[key];
+
+			if (field?.kind !== "relation") {
+				throw badRequest(`Unknown relation '${key}' in '${param}': '${path}'.`);
+			}
+
+			current = relatedCollection(`${param}=${path}`, field.ref);
+
+			if (i === keys.length - 1) {
+				target[key] = target[key] || true;
+			} else {
+				if (typeof target[key] !== "object") target[key] = { include: {} };
+
+				target = (target[key] as { include: Record<string, unknown> }).include;
+			}
+		});
+	}
+
+	return include;
+}
+
+function nonNegativeInt(param: string, value: unknown) {
+	if (typeof value !== "string" || !/^\d+$/.test(value)) {
+		throw badRequest(`'${param}' must be a non-negative integer.`);
+	}
+
+	return Number(value);
+}
+
+/*
+	maps a collection's GET query string to Prisma findMany args,
+	"where", "orderBy", "select", "include" (or "populate"), "distinct", "take", "skip"
+	and "cursor"
+	are query args, every other parameter has to be a field of the collection
+*/
+function mapQuery(query: Record<string, unknown>, cKey: string): MappedQuery {
+	const fields = queryFields(cKey);
+	const mapped: MappedQuery = {};
+	const conditions: Record<string, unknown>[] = [];
+	let jsonWhere;
+
+	for (const [param, value] of Object.entries(query)) {
+		if (param === "where") {
+			try {
+				jsonWhere = JSON.parse(String(value));
+			} catch (_) {
+				throw badRequest("Malformed JSON in 'where'.");
+			}
+
+			whereRelations("where", cKey, jsonWhere);
+		} else if (param === "orderBy") {
+			mapped.orderBy = orderByList(cKey, value);
+		} else if (param === "select") {
+			mapped.select = Object.fromEntries(
+				scalarFieldList(param, fields, value).map(name => [name, true])
+			);
+		} else if (param === "include" || param === "populate") {
+			mapped.include = includeTree(param, cKey, value, mapped.include);
+		} else if (param === "distinct") {
+			mapped.distinct = scalarFieldList(param, fields, value);
+		} else if (param === "take" || param === "skip") {
+			mapped[param] = nonNegativeInt(param, value);
+		} else if (param === "cursor") {
+			// opaque, handed out by previous responses
+			if (typeof value !== "string") throw badRequest("'cursor' must be a string.");
+
+			mapped.cursor = value;
+		} else {
+			if (!fields[param]) throw badRequest(`Unknown query parameter '${param}'.`);
+
+			conditions.push(fieldCondition(param, param, fields[param], value));
+		}
+	}
+
+	if (mapped.select && mapped.include) {
+		throw badRequest("'select' and 'include' (or 'populate') can't be used together.");
+	}
+
+	const hasFilters = conditions.length > 0;
+	const filters = combineConditions(conditions);
+
+	if (jsonWhere && hasFilters) mapped.where = { AND: [jsonWhere, filters] };
+	else if (jsonWhere || hasFilters) mapped.where = jsonWhere || filters;
+
+	return mapped;
+}
+
+function aggregateFields(
+	fn: AggregateFunction,
+	fields: Record<string, QueryField>,
+	value: unknown
+) {
+	return fieldList(fn, value).map(name => {
+		const field = fields[name];
+
+		if (fn === "_count" && (name === "*" || name === "_all")) return "_all";
+		if (field?.kind !== "scalar") throw badRequest(`Unknown field '${name}' in '${fn}'.`);
+
+		if (fn !== "_count" && (field.list || !aggregateTypes[fn].includes(field.type))) {
+			throw badRequest(
+				`'${name}' can't be used in '${fn}', it takes ${aggregateTypes[fn].join(
+					", "
+				)} fields.`
+			);
+		}
+
+		return name;
+	});
+}
+
+/*
+	"orderBy=category:desc,_sum.price:desc", groups are ordered by the fields
+	they're grouped by and by their aggregates
+*/
+function groupOrderBy(value: unknown, mapped: MappedAggregateQuery) {
+	return fieldList("orderBy", value).map(item => {
+		const [path, direction = "asc", ...rest] = item.split(":");
+		const [key, field, ...nested] = path.split(".");
+
+		if (rest.length > 0 || !["asc", "desc"].includes(direction)) {
+			throw badRequest(`Invalid direction in 'orderBy': '${item}', use 'asc' or 'desc'.`);
+		}
+
+		if (field === undefined && mapped.by?.includes(key)) return { [key]: direction };
+
+		const isAggregated = aggregateFunctions.includes(key as AggregateFunction);
+
+		if (!isAggregated || nested.length > 0 || !mapped[key as AggregateFunction]?.[field]) {
+			throw badRequest(
+				`Can't order by '${path}' in 'orderBy', use a field of 'groupBy' or an aggregate, e.g. '_sum.price'.`
+			);
+		}
+
+		return { [key]: { [field]: direction } };
+	});
+}
+
+/*
+	maps an aggregate query string to Prisma aggregate or groupBy args,
+	"_count", "_sum", "_avg", "_min" and "_max" take comma-separated fields ("_count=*" counts
+	the records), "groupBy" the fields to group by, and the filters are the same as for GET,
+	"_count=*" is the default when no aggregate is asked for
+*/
+function mapAggregateQuery(query: Record<string, unknown>, cKey: string): MappedAggregateQuery {
+	const fields = queryFields(cKey);
+	const { groupBy, orderBy, take, skip, ...rest } = query;
+	const mapped: MappedAggregateQuery = {};
+	const filters: Record<string, unknown> = {};
+
+	for (const [param, value] of Object.entries(rest)) {
+		if (aggregateFunctions.includes(param as AggregateFunction)) {
+			const fn = param as AggregateFunction;
+
+			mapped[fn] = Object.fromEntries(
+				aggregateFields(fn, fields, value).map(name => [name, true] as const)
+			);
+		} else {
+			filters[param] = value;
+		}
+	}
+
+	const { where, ...queryArgs } = mapQuery(filters, cKey);
+
+	if (Object.keys(queryArgs).length > 0) {
+		throw badRequest(
+			"Aggregates take filters, 'where', 'groupBy', 'orderBy', 'take' and 'skip'."
+		);
+	}
+
+	if (where) mapped.where = where;
+	if (!aggregateFunctions.some(fn => mapped[fn])) mapped._count = { _all: true };
+
+	if (groupBy === undefined) {
+		if (orderBy !== undefined || take !== undefined || skip !== undefined) {
+			throw badRequest("'orderBy', 'take' and 'skip' can only be used with 'groupBy'.");
+		}
+
+		return mapped;
+	}
+
+	mapped.by = scalarFieldList("groupBy", fields, groupBy);
+
+	const isGroupable = (name: string) => {
+		const field = fields[name] as ScalarQueryField;
+
+		return !field.list && field.type !== "Json";
+	};
+
+	if (!mapped.by.every(isGroupable)) {
+		throw badRequest("Lists and Json fields can't be grouped by in 'groupBy'.");
+	}
+
+	// groups are ordered by the fields they're grouped by unless asked otherwise
+	mapped.orderBy =
+		orderBy === undefined
+			? mapped.by.map(name => ({ [name]: "asc" }))
+			: groupOrderBy(orderBy, mapped);
+
+	if (take !== undefined) mapped.take = nonNegativeInt("take", take);
+	if (skip !== undefined) mapped.skip = nonNegativeInt("skip", skip);
+
+	return mapped;
+}
 
-export { mapQuery };
+export {
+	mapQuery,
+	mapAggregateQuery,
+	whereRelations,
+	listWhere,
+	queryFields,
+	operatorsByType,
+	listOperators,
+};
@@ -0,0 +1,185 @@
+import { SystemPandaError } from "../util/SystemPandaError.js";
+import { getConfigStore, getDataStore } from "../util/stores.js";
+import { isPrismaErr, listStorage } from "../util/helpers.js";
+import {
+	Collection,
+	RecordData,
+	PrismaClientKnownRequestError,
+	RelationField,
+} from "../util/types.js";
+
+const singleOperations = ["connect", "disconnect", "create"];
+const listOperations = ["connect", "disconnect", "set", "create"];
+
+const relationError = (fieldName: string, message: string) =>
+	new SystemPandaError({
+		level: "informative",
+		status: 400,
+		message: `Invalid value for the relation field '${fieldName}': ${message}`,
+	});
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> =>
+	typeof x === "object" && x !== null && !Array.isArray(x);
+
+const relatedCollectionKey = (field: RelationField) => field.ref.split(".")[0];
+
+/*
+	"connect: 3" and "connect: { id: 3 }" both become { id: 3 },
+	with the ID converted to the related collection's ID type
+*/
+function recordWhere(fieldName: string, target: Collection, value: unknown) {
+	const idName = target.id?.name || "id";
+	const isIntId = !target.id?.type || target.id.type === "autoincrement";
+	const id = isPlainObject(value) ? value[idName] : value;
+
+	if (isIntId && (Number.isInteger(id) || (typeof id === "string" && /^\d+$/.test(id)))) {
+		return { [idName]: Number(id) };
+	}
+
+	if (!isIntId && typeof id === "string" && id !== "") return { [idName]: id };
+
+	throw relationError(
+		fieldName,
+		`expected ${
+			isIntId ? "an integer" : "a string"
+		} ID or { "${idName}": ID }, received ${JSON.stringify(value)}.`
+	);
+}
+
+function relationWrite(
+	fieldName: string,
+	field: RelationField,
+	value: unknown,
+	operation: "create" | "update"
+) {
+	const { internal, visible } = getDataStore().normalizedCollections;
+	const targetKey = relatedCollectionKey(field);
+	const target = { ...internal, ...visible }[targetKey];
+	const allowed = field.many ? listOperations : singleOperations;
+
+	if (!isPlainObject(value)) {
+		throw relationError(fieldName, `expected an object with ${allowed.join(", ")}.`);
+	}
+
+	return Object.fromEntries(
+		Object.entries(value).map(([op, opValue]) => {
+			const toList = (x: unknown) => (Array.isArray(x) ? x : [x]);
+
+			if (!allowed.includes(op)) {
+				throw relationError(
+					fieldName,
+					`'${op}' is not supported on ${
+						field.many ? "list" : "single"
+					} relations, use ${allowed.join(", ")}.`
+				);
+			}
+
+			if (operation === "create" && (op === "disconnect" || op === "set")) {
+				throw relationError(fieldName, `'${op}' can't be used when creating a record.`);
+			}
+
+			if (op === "create") {
+				if (!getConfigStore().content.collections[targetKey]) {
+					throw relationError(fieldName, `records of '${targetKey}' can't be created.`);
+				}
+
+				const created = toList(opValue).map(x => {
+					if (!isPlainObject(x)) {
+						throw relationError(fieldName, "'create' expects objects.");
+					}
+
+					return mapRelationWrites(target, x, "create").data;
+				});
+
+				return [op, field.many ? created : created[0]];
+			}
+
+			if (op === "disconnect" && !field.many) {
+				if (opValue !== true) {
+					throw relationError(
+						fieldName,
+						"'disconnect' expects true on single relations."
+					);
+				}
+
+				return [op, true];
+			}
+
+			if (!field.many) return [op, recordWhere(fieldName, target, opValue)];
+
+			return [op, toList(opValue).map(x => recordWhere(fieldName, target, x))];
+		})
+	);
+}
+
+/*
+	relation fields in the input data are turned into Prisma nested writes
+	(connect, disconnect, set, create), lists stored as JSON text are written as their JSON,
+	the other fields are left as they are
+*/
+function mapRelationWrites<T extends RecordData | RecordData[]>(
+	collection: Collection,
+	data: T,
+	operation: "create" | "update"
+): { data: T; relationFields: string[] } {
+	const relationFields: string[] = [];
+	const listsAsText = listStorage(getConfigStore().settings.db) === "text";
+
+	if (!isPlainObject(data)) return { data, relationFields };
+
+	const mapped = Object.fromEntries(
+		Object.entries(data).map(([key, value]) => {
+			const field = collection.fields[key];
+
+			if (field?.type !== "relation" && field?.list && listsAsText && Array.isArray(value)) {
+				return [key, JSON.stringify(value)];
+			}
+
+			if (field?.type !== "relation" || value === undefined) return [key, value];
+
+			relationFields.push(key);
+
+			return [key, relationWrite(key, field, value, operation)];
+		})
+	);
+
+	return { data: mapped as T, relationFields };
+}
+
+/*
+	Prisma only names the models and its relation in its errors,
+	so they are matched back to the relation fields that were written
+*/
+function relationWriteError(err: unknown, collection: Collection, relationFields: string[]) {
+	const relationErrCodes = ["P2003", "P2014", "P2015", "P2017", "P2018", "P2025"];
+
+	if (
+		relationFields.length === 0 ||
+		!isPrismaErr(err) ||
+		!relationErrCodes.includes((err as PrismaClientKnownRequestError).code)
+	) {
+		return err;
+	}
+
+	const { meta, message } = err as PrismaClientKnownRequestError;
+	const cause = meta?.cause ? String(meta.cause) : "";
+	const matching = relationFields.filter(key => {
+		const field = collection.fields[key] as RelationField;
+
+		return `${cause} ${message}`.includes(`'${relatedCollectionKey(field)}'`);
+	});
+	const failedFields = matching.length > 0 ? matching : relationFields;
+
+	// the rest of Prisma's message names tables and columns, only its cause is told
+	return new SystemPandaError({
+		level: "informative",
+		status: 400,
+		code: "RELATION_WRITE_FAILED",
+		message: `Relation write failed on '${failedFields.join("', '")}'${
+			cause ? `: ${cause}` : "."
+		}`,
+		details: { fields: failedFields },
+	});
+}
+
+export { mapRelationWrites, relationWriteError };
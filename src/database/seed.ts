@@ -1,5 +1,5 @@
 import bcrypt from "bcrypt";
-import { selectOnQuery, getDataStore } from "../util/index.js";
+import { ADMIN_ROLE, selectOnQuery, getDataStore } from "../util/index.js";
 
 async function seed() {
 	const { prisma, initFirstAuth, authFields } = getDataStore();
@@ -15,7 +15,7 @@ async function seed() {
 		const data = {
 			...initFirstAuth,
 			[secretField]: hash,
-			[roleField]: "admin",
+			[roleField]: ADMIN_ROLE,
 		};
 
 		await prisma[collectionKey].create({
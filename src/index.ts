@@ -1,5 +1,10 @@
-import { database } from "./database/index.js";
-import { overrideDefaultCollections } from "./collections/index.js";
+import { database, introspect } from "./database/index.js";
+import {
+	defineCollection,
+	defineHooks,
+	overrideDefaultCollections,
+	validateConfig,
+} from "./collections/index.js";
 import { server } from "./server/index.js";
 import {
 	SystemPandaError,
@@ -23,22 +28,40 @@ const SystemPanda: SP = async function (options) {
 		};
 		mergedAuthFields.relationKey = "relation_" + mergedAuthFields.collectionKey;
 
-		const [authCollection, internalCollections] = overrideDefaultCollections(mergedAuthFields);
+		const [authCollection, internalCollections] = overrideDefaultCollections(
+			mergedAuthFields,
+			options.settings.authSession.roles
+		);
+
+		const normalizedCollections = {
+			visible: { ...options.content.collections, ...authCollection },
+			internal: internalCollections,
+		};
+
+		validateConfig(options, normalizedCollections);
 
 		setDataStore({
 			authFields: mergedAuthFields,
 			initFirstAuth: options.settings.authSession.initFirstAuth,
-			normalizedCollections: {
-				visible: { ...options.content.collections, ...authCollection },
-				internal: internalCollections,
-			},
+			normalizedCollections,
 		});
 
-		await database();
+		/* a migrations dry run stops before the server is started */
+		if (!(await database())) return;
+
 		await server();
 	} catch (err: unknown) {
 		await logger(logfile, err as SystemPandaError | Error);
 	}
 };
 
+export { introspect, defineCollection, defineHooks, SystemPandaError };
+export type {
+	Collection,
+	Collections,
+	CollectionTypes,
+	Context,
+	CRUDHooks,
+	Options,
+} from "./util/index.js";
 export default SystemPanda;
@@ -0,0 +1,39 @@
+import {
+	CollectionRequest,
+	RequestBody,
+	authorizeIncludes,
+	handleHooksPlugins,
+} from "../util/index.js";
+import { mapAggregateQuery, whereRelations } from "../database/index.js";
+import { collectionTarget } from "./collectionTarget.js";
+
+/*
+	counts, sums, averages, minimums and maximums of a collection's records, optionally grouped,
+	allowed or denied by the collection's beforeOperation hooks like any other read
+*/
+async function aggregateOperation({ ctx, cKey, query: requestQuery }: CollectionRequest) {
+	const { collectionConfig } = collectionTarget(cKey);
+	const inputData: RequestBody = {};
+	const operationArgs = { existingData: null, inputData, operation: "read" as const, ctx };
+
+	const triggerHooksPlugins = await handleHooksPlugins(
+		ctx,
+		collectionConfig.hooks,
+		inputData,
+		operationArgs
+	);
+
+	ctx.util.currentHook = "beforeOperation";
+	await triggerHooksPlugins();
+
+	const { by, ...args } = mapAggregateQuery(requestQuery || {}, cKey);
+
+	await authorizeIncludes(ctx, collectionConfig, whereRelations("where", cKey, args.where));
+
+	const query = ctx.prisma[cKey];
+	const data = by ? await query.groupBy({ by, ...args }) : await query.aggregate(args);
+
+	return { data };
+}
+
+export { aggregateOperation };
@@ -0,0 +1,177 @@
+import { PrismaClient } from "@prisma/client";
+import {
+	BATCH,
+	BatchStep,
+	Context,
+	EventTriggerPayload,
+	SystemPandaError,
+	getConfigStore,
+	normalizeError,
+} from "../util/index.js";
+import { collectionKeyBySlug } from "./collectionTarget.js";
+import { runCollectionOperation } from "./collectionOperation.js";
+import { runRecordOperation } from "./recordOperation.js";
+import { notifyChange } from "./notifyChange.js";
+
+type StepResults = Record<string, unknown>;
+
+const collectionMethods = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const recordMethods = ["GET", "PATCH", "DELETE"];
+
+const badRequest = (message: string) =>
+	new SystemPandaError({ level: "informative", status: 400, message });
+
+const isPlainObject = (x: unknown): x is Record<string, unknown> =>
+	typeof x === "object" && x !== null && !Array.isArray(x);
+
+/*
+	"album.after.id" is the "id" of the "after" of the result of the step named "album",
+	steps can also be referred to by their index, e.g. "0.after.id"
+*/
+function resolveRef(ref: string, results: StepResults) {
+	const [name, ...path] = ref.split(".");
+
+	if (!(name in results)) {
+		throw badRequest(`'${name}' in '${ref}' isn't an earlier operation.`);
+	}
+
+	const value = path.reduce<unknown>(
+		(x, key) => (isPlainObject(x) || Array.isArray(x) ? (x as StepResults)[key] : undefined),
+		results[name]
+	);
+
+	if (value === undefined) {
+		throw badRequest(`'${ref}' doesn't exist.`);
+	}
+
+	return value;
+}
+
+function resolveRefs(value: unknown, results: StepResults): unknown {
+	if (Array.isArray(value)) return value.map(x => resolveRefs(x, results));
+	if (!isPlainObject(value)) return value;
+
+	if (typeof value.$ref === "string" && Object.keys(value).length === 1) {
+		return resolveRef(value.$ref, results);
+	}
+
+	return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveRefs(v, results)]));
+}
+
+function validateSteps(steps: unknown, maxOperations: number): asserts steps is BatchStep[] {
+	if (!Array.isArray(steps) || steps.length === 0) {
+		throw badRequest("'operations' must be a list of operations.");
+	}
+
+	if (steps.length > maxOperations) {
+		throw badRequest(`A batch can have at most ${maxOperations} operations.`);
+	}
+
+	const refs = new Set<unknown>();
+
+	steps.forEach((step, index) => {
+		if (!isPlainObject(step)) throw badRequest(`Operation ${index} must be an object.`);
+
+		const { ref, collection, method, id } = step;
+		const methods = id === undefined ? collectionMethods : recordMethods;
+
+		if (typeof collection !== "string") {
+			throw badRequest(`Operation ${index} must have the slug of a 'collection'.`);
+		}
+
+		if (typeof method !== "string" || !methods.includes(method)) {
+			throw badRequest(
+				`The 'method' of operation ${index} must be one of: ${methods.join(", ")}.`
+			);
+		}
+
+		if (ref !== undefined) {
+			if (typeof ref !== "string" || !/^[A-Za-z_][\w-]*$/.test(ref)) {
+				throw badRequest(`The 'ref' of operation ${index} must be a name, e.g. 'album'.`);
+			}
+
+			if (refs.has(ref)) throw badRequest(`The 'ref' '${ref}' is used more than once.`);
+
+			refs.add(ref);
+		}
+	});
+}
+
+/*
+	errors are re-thrown naming the operation that failed, unexpected ones are left as they are,
+	the whole batch is rolled back either way
+*/
+function stepError(err: unknown, index: number, step: BatchStep) {
+	const { status, code, message, details } = normalizeError(err);
+
+	if (status >= 500) return err;
+
+	const name = step.ref ? ` ('${step.ref}')` : "";
+
+	return new SystemPandaError({
+		status,
+		code,
+		message: `Operation ${index}${name} failed: ${message}`,
+		details,
+	});
+}
+
+/*
+	an ordered list of operations across collections in one transaction,
+	every one of them runs its hooks and access checks like a request of its own would,
+	and can use the results of the ones before it
+*/
+async function batchOperation(ctx: Context, steps: unknown) {
+	const { batch } = getConfigStore().settings;
+	const { maxOperations = BATCH.MAX_OPERATIONS, ...transactionOptions } = batch || {};
+	const changes: [string, EventTriggerPayload][] = [];
+
+	validateSteps(steps, maxOperations);
+
+	const results = await ctx.prisma.$transaction(async (tx: PrismaClient) => {
+		const stepResults: StepResults = {};
+		const report = [];
+
+		for (const [index, step] of steps.entries()) {
+			const { ref, collection, method, id, query, body } = step;
+
+			try {
+				const cKey = collectionKeyBySlug(collection);
+				const request = {
+					ctx: { ...ctx, prisma: tx, util: { ...ctx.util } },
+					cKey,
+					method,
+					...(id !== undefined && { id: String(resolveRefs(id, stepResults)) }),
+					query: resolveRefs(query || {}, stepResults) as Record<string, unknown>,
+					body: resolveRefs(body || {}, stepResults) as BatchStep["body"],
+				};
+				const { webhookTriggerPayload, data, pagination } =
+					id === undefined
+						? await runCollectionOperation(request)
+						: { ...(await runRecordOperation(request)), pagination: undefined };
+
+				changes.push([cKey, webhookTriggerPayload]);
+				stepResults[index] = data;
+				if (ref) stepResults[ref] = data;
+
+				report.push({
+					...(ref && { ref }),
+					collection,
+					method,
+					data,
+					...pagination,
+				});
+			} catch (err: unknown) {
+				throw stepError(err, index, step);
+			}
+		}
+
+		return report;
+	}, transactionOptions);
+
+	changes.forEach(([cKey, payload]) => notifyChange(cKey, payload));
+
+	return results;
+}
+
+export { batchOperation };
@@ -0,0 +1,415 @@
+import {
+	Collection,
+	CollectionRequest,
+	EventTriggerPayload,
+	ExistingData,
+	RecordData,
+	RequestBody,
+	PrismaModel,
+	methodMapping,
+	nullIfEmptyArrOrObj,
+	isPrismaErrCode,
+	encodeCursor,
+	decodeCursor,
+	PAGINATION,
+	SystemPandaError,
+	handleHooksPlugins,
+	authorizeIncludes,
+} from "../util/index.js";
+import { validateFields } from "../collections/index.js";
+import {
+	decodeLists,
+	listWhere,
+	mapQuery,
+	mapRelationWrites,
+	relationWriteError,
+	whereRelations,
+} from "../database/index.js";
+import { PrismaClient } from "@prisma/client";
+import { collectionTarget } from "./collectionTarget.js";
+import { batchTransaction, inTransaction, withTransaction } from "./withTransaction.js";
+import { notifyChange } from "./notifyChange.js";
+import { prepareNestedCreates } from "./nestedCreates.js";
+
+/*
+	PUT replaces the records, so every field has to be accounted for:
+	required fields must be supplied and left out optional fields are set to null,
+	fields with a default or generated value, relations and their foreign keys
+	are left as they are
+*/
+function replacementData(model: PrismaModel, data: RequestBody["data"]) {
+	if (!data || typeof data !== "object" || Array.isArray(data)) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 400,
+			message: "PUT expects a single object as data.",
+		});
+	}
+
+	const replaced = { ...data };
+	const missingFields = [];
+
+	const foreignKeys = Object.values(model.fields).flatMap(x => x.relation?.fields || []);
+
+	for (const field of Object.values(model.fields)) {
+		const { name, kind, list, optional } = field;
+		const isGenerated = field.isId || field.isUpdatedAt || field.default !== undefined;
+
+		if (kind === "object" || isGenerated || foreignKeys.includes(name)) continue;
+
+		const isMissing = data[name] === undefined || data[name] === null;
+
+		if (!isMissing) continue;
+
+		if (list) replaced[name] = [];
+		else if (optional) replaced[name] = null;
+		else missingFields.push(name);
+	}
+
+	if (missingFields.length > 0) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 400,
+			message: `Missing required fields: '${missingFields.join(
+				"', '"
+			)}'. Use PATCH to update only some fields.`,
+		});
+	}
+
+	return replaced;
+}
+
+/*
+	createMany only returns a count, and "createMany ... returning" isn't
+	supported by every provider, so the records are created one by one
+	to get back the generated IDs and default values
+*/
+async function createRecords(
+	prisma: PrismaClient,
+	query: PrismaClient,
+	rows: RecordData[],
+	skipDuplicates?: boolean
+) {
+	if (!skipDuplicates) {
+		return batchTransaction(
+			prisma,
+			rows.map(data => query.create({ data }))
+		);
+	}
+
+	const created = [];
+
+	for (const data of rows) {
+		try {
+			created.push(await query.create({ data }));
+		} catch (err: unknown) {
+			if (!isPrismaErrCode(err, "P2002")) throw err;
+		}
+	}
+
+	return created;
+}
+
+/*
+	"take" falls back to the collection's default and is capped at its maximum,
+	so a single request can't pull a whole table
+*/
+function pageSize(take: unknown, pagination: Collection["pagination"]) {
+	const defaultTake = pagination?.defaultTake || PAGINATION.DEFAULT_TAKE;
+	const maxTake = pagination?.maxTake || PAGINATION.MAX_TAKE;
+
+	if (take === undefined) return Math.min(defaultTake, maxTake);
+
+	if (!Number.isInteger(take) || Number(take) < 1) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 400,
+			message: "'take' must be a positive integer.",
+		});
+	}
+
+	return Math.min(Number(take), maxTake);
+}
+
+async function runCollectionOperation({
+	ctx,
+	cKey,
+	method: reqMethod,
+	query: requestQuery,
+	body,
+}: CollectionRequest) {
+	const { collectionConfig, model, slugOrKey } = collectionTarget(cKey);
+	const { hooks, id, pagination } = collectionConfig;
+	// bound to the transaction of transactional collections
+	const query = ctx.prisma[cKey];
+	let resultData;
+	let paginationData;
+	const existingData: ExistingData = null;
+	const inputData: RequestBody = body || {};
+	const isArr = Array.isArray(inputData.data);
+	const operation = methodMapping[reqMethod];
+	const operationArgs = {
+		existingData,
+		inputData,
+		operation,
+		...(operation === "update" && { isPartialUpdate: reqMethod === "PATCH" }),
+		ctx,
+	};
+
+	const triggerHooksPlugins = await handleHooksPlugins(ctx, hooks, inputData, operationArgs);
+
+	ctx.util.currentHook = "beforeOperation";
+	await triggerHooksPlugins();
+
+	if (reqMethod === "GET") {
+		const idName = id?.name || "id";
+		const { take, cursor, ...mappedQuery } = mapQuery(requestQuery || {}, cKey);
+		const size = pageSize(take, pagination);
+
+		// filtering through a relation tells about its records as much as including it
+		await authorizeIncludes(ctx, collectionConfig, mappedQuery.include);
+		await authorizeIncludes(
+			ctx,
+			collectionConfig,
+			whereRelations("where", cKey, mappedQuery.where)
+		);
+		const orderBy = mappedQuery.orderBy || [];
+
+		// the ID keeps the order stable between pages
+		if (!orderBy.some(x => idName in x)) orderBy.push({ [idName]: "asc" });
+
+		// one extra record to know if there is a next page
+		const [records, total] = await Promise.all([
+			query.findMany({
+				...mappedQuery,
+				orderBy,
+				...(mappedQuery.select && {
+					select: { ...mappedQuery.select, [idName]: true },
+				}),
+				...(cursor && {
+					cursor: decodeCursor(cursor, [idName]),
+					skip: mappedQuery.skip ?? 1,
+				}),
+				take: size + 1,
+			}),
+			query.count({ where: mappedQuery.where }),
+		]);
+
+		const hasNextPage = records.length > size;
+		resultData = decodeLists(cKey, records.slice(0, size));
+
+		paginationData = {
+			total,
+			pageSize: size,
+			hasNextPage,
+			nextCursor: hasNextPage
+				? encodeCursor({ [idName]: resultData[size - 1][idName] })
+				: null,
+		};
+	} else {
+		const isUpdate = reqMethod === "PUT" || reqMethod === "PATCH";
+		const hasFilter = Object.keys(inputData.where || {}).length > 0;
+
+		// a forgotten "where" would update every record
+		if (isUpdate && !hasFilter && inputData.all !== true) {
+			throw new SystemPandaError({
+				level: "informative",
+				status: 400,
+				message:
+					"Expected a 'where' to choose the records to update, set 'all' to true to update every record.",
+			});
+		}
+
+		// list filters as the query parameters take them, on lists that aren't native too
+		const where = listWhere("where", cKey, inputData.where);
+
+		if (reqMethod !== "POST") {
+			await authorizeIncludes(
+				ctx,
+				collectionConfig,
+				whereRelations("where", cKey, inputData.where)
+			);
+
+			const data = await query.findMany({ where });
+
+			operationArgs.existingData = nullIfEmptyArrOrObj(decodeLists(cKey, data));
+		}
+
+		ctx.util.currentHook = "modifyInput";
+		await triggerHooksPlugins();
+
+		ctx.util.currentHook = "validateInput";
+		await triggerHooksPlugins();
+
+		let mergeData: RequestBody["data"] | null =
+			reqMethod === "PUT" ? replacementData(model, inputData.data) : inputData.data;
+
+		mergeData = nullIfEmptyArrOrObj(mergeData || {});
+
+		if (mergeData) {
+			await validateFields(collectionConfig, model, mergeData, reqMethod === "PATCH");
+		}
+
+		if (reqMethod === "POST") {
+			if (!mergeData) {
+				throw new SystemPandaError({
+					level: "informative",
+					status: 400,
+					message: "No data was supplied to create.",
+				});
+			}
+
+			/*
+				duplicates are skipped by catching the failed inserts,
+				after which some databases (e.g. PostgreSQL) abort the whole transaction
+			*/
+			if (inputData.skipDuplicates && inTransaction(ctx.prisma)) {
+				throw new SystemPandaError({
+					level: "informative",
+					status: 400,
+					message:
+						"'skipDuplicates' can't be used in a transaction, i.e. on a transactional collection or in a batch.",
+				});
+			}
+
+			await prepareNestedCreates(ctx, collectionConfig, mergeData);
+
+			const rows = (Array.isArray(mergeData) ? mergeData : [mergeData]).map(row =>
+				mapRelationWrites(collectionConfig, row, "create")
+			);
+			const relationFields = rows.flatMap(row => row.relationFields);
+
+			const created = await createRecords(
+				ctx.prisma,
+				query,
+				rows.map(row => row.data),
+				inputData.skipDuplicates
+			).catch((err: unknown) => {
+				throw relationWriteError(err, collectionConfig, relationFields);
+			});
+			const after = decodeLists(cKey, isArr ? created : created[0] || null);
+
+			operationArgs.existingData = after;
+
+			resultData = {
+				before: null,
+				after,
+			};
+		} else if (reqMethod === "PUT" || reqMethod === "PATCH") {
+			if (!mergeData) {
+				throw new SystemPandaError({
+					level: "informative",
+					status: 400,
+					message: "No fields were supplied to update.",
+				});
+			}
+
+			const idName = id?.name || "id";
+			const existing = (operationArgs.existingData || []) as RecordData[];
+
+			await prepareNestedCreates(ctx, collectionConfig, mergeData);
+
+			const { data: updateData, relationFields } = mapRelationWrites(
+				collectionConfig,
+				mergeData,
+				"update"
+			);
+
+			/*
+					updateMany can't write to relations,
+					so those updates are made record by record
+				*/
+			let updated;
+
+			if (relationFields.length > 0) {
+				updated = await batchTransaction(
+					ctx.prisma,
+					existing.map(record =>
+						query.update({
+							where: { [idName]: record[idName] },
+							data: updateData,
+						})
+					)
+				).catch((err: unknown) => {
+					throw relationWriteError(err, collectionConfig, relationFields);
+				});
+			} else {
+				const { count } = await query.updateMany({
+					data: updateData,
+					where,
+				});
+
+				// updateMany only returns a count, the records are read back as they were stored
+				const ids = existing.map(record => record[idName]);
+
+				updated =
+					count === 0 ? [] : await query.findMany({ where: { [idName]: { in: ids } } });
+			}
+
+			if (updated.length === 0) {
+				throw new SystemPandaError({
+					level: "informative",
+					status: 404,
+					message: "No data to update.",
+				});
+			}
+
+			resultData = {
+				before: operationArgs.existingData,
+				after: decodeLists(cKey, updated),
+			};
+		} else if (reqMethod === "DELETE") {
+			const deleted = await query.deleteMany({
+				where,
+			});
+
+			if (deleted?.count === 0) {
+				throw new SystemPandaError({
+					level: "informative",
+					status: 404,
+					message: "No data to delete.",
+				});
+			}
+
+			resultData = {
+				before: operationArgs.existingData,
+				after: mergeData,
+			};
+
+			operationArgs.existingData = null;
+		}
+	}
+
+	ctx.util.currentHook = "afterOperation";
+	await triggerHooksPlugins();
+
+	const webhookTriggerPayload: EventTriggerPayload = {
+		event: methodMapping[reqMethod],
+		collection: {
+			name: cKey,
+			slug: slugOrKey,
+		},
+		data: nullIfEmptyArrOrObj(resultData),
+		timestamp: new Date().toISOString(),
+	};
+
+	return { data: resultData, pagination: paginationData, webhookTriggerPayload };
+}
+
+/*
+	a read or write on the records of a collection, shared by the REST and GraphQL APIs,
+	so hooks, plugins, access checks and webhooks run the same way for both,
+	webhooks and subscribers are only told about a change once it's committed
+*/
+async function collectionOperation(request: CollectionRequest) {
+	const { webhookTriggerPayload, ...result } = await withTransaction(
+		request,
+		runCollectionOperation
+	);
+
+	notifyChange(request.cKey, webhookTriggerPayload);
+
+	return result;
+}
+
+export { collectionOperation, runCollectionOperation };
@@ -0,0 +1,34 @@
+import { SystemPandaError, getConfigStore, getDataStore } from "../util/index.js";
+
+// everything an operation needs to know about a collection, by its key
+function collectionTarget(cKey: string) {
+	const { content } = getConfigStore();
+	const { prisma, schema } = getDataStore();
+	const collectionConfig = content.collections[cKey];
+
+	return {
+		query: prisma[cKey],
+		collectionConfig,
+		model: schema?.models[cKey] || { name: cKey, isView: false, fields: {}, attributes: [] },
+		webhooks: [...(content.webhooks || []), ...(collectionConfig.webhooks || [])],
+		slugOrKey: collectionConfig.slug || cKey,
+	};
+}
+
+// the key of a collection served by the API, by the slug its routes use
+function collectionKeyBySlug(slug: unknown) {
+	const { collections } = getConfigStore().content;
+	const cKey = Object.keys(collections).find(k => (collections[k].slug || k) === slug);
+
+	if (!cKey) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 404,
+			message: `There is no collection '${slug}'.`,
+		});
+	}
+
+	return cKey;
+}
+
+export { collectionTarget, collectionKeyBySlug };
@@ -0,0 +1,5 @@
+export * from "./collectionTarget.js";
+export * from "./collectionOperation.js";
+export * from "./recordOperation.js";
+export * from "./batchOperation.js";
+export * from "./aggregateOperation.js";
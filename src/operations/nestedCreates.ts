@@ -0,0 +1,101 @@
+import {
+	Collection,
+	Context,
+	RecordData,
+	RequestBody,
+	SystemPandaError,
+	getConfigStore,
+	handleHooksPlugins,
+} from "../util/index.js";
+import { validateFields } from "../collections/index.js";
+import { collectionTarget } from "./collectionTarget.js";
+
+const nestedHooks = ["beforeOperation", "modifyInput", "validateInput"] as const;
+
+// errors of a nested create name the relation field it was made through
+function nestedError(err: unknown, relationKey: string) {
+	if (!(err instanceof SystemPandaError)) return err;
+
+	if (err.status === 403) {
+		return new SystemPandaError({
+			level: "informative",
+			status: 403,
+			message: `Access denied to the relation '${relationKey}'.`,
+		});
+	}
+
+	if (err.errors) {
+		return new SystemPandaError({
+			level: err.level,
+			status: err.status,
+			code: err.code,
+			message: err.message,
+			errors: Object.fromEntries(
+				Object.entries(err.errors).map(([key, messages]) => [
+					`${relationKey}.${key}`,
+					messages,
+				])
+			),
+		});
+	}
+
+	return err;
+}
+
+/*
+	nested "create"s of relation fields create records in the related collection,
+	so they go through its beforeOperation, modifyInput and validateInput hooks and its
+	field validation like a request to it would, before the data is mapped to Prisma's nested writes,
+	afterOperation hooks don't run, the records are only written along with the parent
+*/
+async function prepareNestedCreates(
+	ctx: Context,
+	collection: Collection,
+	data: RequestBody["data"]
+) {
+	const { collections } = getConfigStore().content;
+
+	for (const record of Array.isArray(data) ? data : [data]) {
+		for (const [key, value] of Object.entries(record || {})) {
+			const field = collection.fields[key];
+			const created = (value as { create?: RecordData | RecordData[] })?.create;
+			if (field?.type !== "relation" || !created) continue;
+
+			const targetKey = field.ref.split(".")[0];
+
+			// mapRelationWrites rejects creates in collections that aren't served
+			if (!collections[targetKey]) continue;
+
+			const { collectionConfig: target, model } = collectionTarget(targetKey);
+
+			const inputData: RequestBody = { data: created };
+			const operationArgs = {
+				existingData: null,
+				inputData,
+				operation: "create" as const,
+				ctx,
+			};
+			const triggerHooksPlugins = await handleHooksPlugins(
+				ctx,
+				target.hooks,
+				inputData,
+				operationArgs
+			);
+
+			try {
+				for (const hook of nestedHooks) {
+					ctx.util.currentHook = hook;
+					await triggerHooksPlugins();
+				}
+
+				await validateFields(target, model, created, false);
+			} catch (err: unknown) {
+				throw nestedError(err, key);
+			}
+
+			await prepareNestedCreates(ctx, target, created);
+		}
+	}
+}
+
+export { prepareNestedCreates };
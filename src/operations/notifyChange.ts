@@ -0,0 +1,12 @@
+import { EventTriggerPayload } from "../util/index.js";
+import { triggerWebhooks } from "../webhooks/index.js";
+import { publishChange } from "../realtime/index.js";
+import { collectionTarget } from "./collectionTarget.js";
+
+// webhooks and subscribers are told about an operation once its changes are committed
+function notifyChange(cKey: string, payload: EventTriggerPayload) {
+	triggerWebhooks(collectionTarget(cKey).webhooks, payload);
+	publishChange(payload);
+}
+
+export { notifyChange };
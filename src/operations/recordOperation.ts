@@ -0,0 +1,143 @@
+import {
+	CollectionRequest,
+	EventTriggerPayload,
+	ExistingData,
+	RequestBody,
+	methodMapping,
+	nullIfEmptyArrOrObj,
+	parseRecordId,
+	SystemPandaError,
+	handleHooksPlugins,
+	authorizeIncludes,
+	filterObjByKeys,
+} from "../util/index.js";
+import { validateFields } from "../collections/index.js";
+import { decodeLists, mapQuery, mapRelationWrites, relationWriteError } from "../database/index.js";
+import { collectionTarget } from "./collectionTarget.js";
+import { withTransaction } from "./withTransaction.js";
+import { notifyChange } from "./notifyChange.js";
+import { prepareNestedCreates } from "./nestedCreates.js";
+
+async function runRecordOperation({
+	ctx,
+	cKey,
+	method: reqMethod,
+	id: recordId,
+	query: requestQuery,
+	body,
+}: CollectionRequest) {
+	const { collectionConfig, model, slugOrKey } = collectionTarget(cKey);
+	const { id, hooks } = collectionConfig;
+	// bound to the transaction of transactional collections
+	const query = ctx.prisma[cKey];
+	let resultData;
+	const existingData: ExistingData = null;
+	const inputData: RequestBody = body || {};
+	const operation = methodMapping[reqMethod];
+	const where = { [id?.name || "id"]: parseRecordId(id, String(recordId)) };
+	const operationArgs = {
+		existingData,
+		inputData,
+		operation,
+		...(operation === "update" && { isPartialUpdate: true }),
+		ctx,
+	};
+
+	const triggerHooksPlugins = await handleHooksPlugins(ctx, hooks, inputData, operationArgs);
+
+	ctx.util.currentHook = "beforeOperation";
+	await triggerHooksPlugins();
+
+	const includeQuery = filterObjByKeys(requestQuery || {}, ["include", "populate"]);
+	const { include } = reqMethod === "GET" ? mapQuery(includeQuery, cKey) : { include: undefined };
+
+	await authorizeIncludes(ctx, collectionConfig, include);
+
+	const data = decodeLists(cKey, await query.findUnique({ where, include }));
+
+	if (!data) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 404,
+			message: `No record found with the ID '${recordId}'.`,
+		});
+	}
+
+	operationArgs.existingData = data;
+
+	if (reqMethod === "GET") {
+		resultData = data;
+	} else if (reqMethod === "PATCH") {
+		ctx.util.currentHook = "modifyInput";
+		await triggerHooksPlugins();
+
+		ctx.util.currentHook = "validateInput";
+		await triggerHooksPlugins();
+
+		await validateFields(collectionConfig, model, inputData.data || {}, true);
+		await prepareNestedCreates(ctx, collectionConfig, inputData.data);
+
+		const { data: updateData, relationFields } = mapRelationWrites(
+			collectionConfig,
+			inputData.data || {},
+			"update"
+		);
+
+		const updated = await query
+			.update({
+				data: updateData,
+				where,
+			})
+			.catch((err: unknown) => {
+				throw relationWriteError(err, collectionConfig, relationFields);
+			});
+
+		resultData = {
+			before: data,
+			after: decodeLists(cKey, updated),
+		};
+	} else if (reqMethod === "DELETE") {
+		ctx.util.currentHook = "modifyInput";
+		await triggerHooksPlugins();
+
+		ctx.util.currentHook = "validateInput";
+		await triggerHooksPlugins();
+
+		await query.delete({ where });
+
+		resultData = {
+			before: data,
+			after: null,
+		};
+
+		operationArgs.existingData = null;
+	}
+
+	ctx.util.currentHook = "afterOperation";
+	await triggerHooksPlugins();
+
+	const webhookTriggerPayload: EventTriggerPayload = {
+		event: operation,
+		collection: {
+			name: cKey,
+			slug: slugOrKey,
+		},
+		data: nullIfEmptyArrOrObj(resultData),
+		timestamp: new Date().toISOString(),
+	};
+
+	return { data: resultData, webhookTriggerPayload };
+}
+
+/*
+	a read, update or delete of one record by its ID, shared by the REST and GraphQL APIs
+*/
+async function recordOperation(request: CollectionRequest) {
+	const { webhookTriggerPayload, ...result } = await withTransaction(request, runRecordOperation);
+
+	notifyChange(request.cKey, webhookTriggerPayload);
+
+	return result;
+}
+
+export { recordOperation, runRecordOperation };
@@ -0,0 +1,31 @@
+import { PrismaClient } from "@prisma/client";
+import { CollectionRequest, getConfigStore } from "../util/index.js";
+
+// the client of an interactive transaction can't start another one
+const inTransaction = (prisma: PrismaClient) => typeof prisma.$transaction !== "function";
+
+/*
+	writes of transactional collections run in one interactive transaction with their hooks,
+	which get the transaction's client as ctx.prisma, so a hook that throws, including
+	"afterOperation", rolls back the write and whatever the hooks wrote before it
+*/
+async function withTransaction<T>(
+	request: CollectionRequest,
+	operation: (request: CollectionRequest) => Promise<T>
+) {
+	const { transactional } = getConfigStore().content.collections[request.cKey];
+	const isInTransaction = inTransaction(request.ctx.prisma);
+
+	if (!transactional || request.method === "GET" || isInTransaction) return operation(request);
+
+	return request.ctx.prisma.$transaction(
+		(tx: PrismaClient) => operation({ ...request, ctx: { ...request.ctx, prisma: tx } }),
+		typeof transactional === "object" ? transactional : {}
+	) as Promise<T>;
+}
+
+// batches of queries run in a transaction of their own, unless they're already part of one
+const batchTransaction = (prisma: PrismaClient, queries: Promise<unknown>[]) =>
+	inTransaction(prisma) ? Promise.all(queries) : prisma.$transaction(queries);
+
+export { withTransaction, batchTransaction, inTransaction };
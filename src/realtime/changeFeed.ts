@@ -0,0 +1,22 @@
+import EventEmitter from "events";
+import { EventTriggerPayload } from "../util/index.js";
+
+/*
+	every create, update and delete of the collections, in the same shape as webhooks get them,
+	subscribers are registered for as long as their connection is open
+*/
+const feed = new EventEmitter().setMaxListeners(0);
+
+const publishChange = (payload: EventTriggerPayload) => {
+	if (payload.event !== "read") feed.emit("change", payload);
+};
+
+const onChange = (listener: (payload: EventTriggerPayload) => void) => {
+	feed.on("change", listener);
+
+	return () => {
+		feed.off("change", listener);
+	};
+};
+
+export { publishChange, onChange };
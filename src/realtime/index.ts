@@ -0,0 +1,2 @@
+export * from "./changeFeed.js";
+export * from "./subscribe.js";
@@ -0,0 +1,116 @@
+import { SystemPandaError } from "../util/index.js";
+
+type Row = Record<string, unknown>;
+
+const isPlainObject = (x: unknown): x is Row =>
+	typeof x === "object" && x !== null && !Array.isArray(x) && !(x instanceof Date);
+
+const toArray = (x: unknown) => (Array.isArray(x) ? x : [x]);
+
+const unsupported = (key: string) =>
+	new SystemPandaError({
+		level: "informative",
+		status: 400,
+		message: `'${key}' can't be used to filter a subscription, only the fields of the collection can.`,
+	});
+
+// dates, BigInts and Decimals are compared by value
+function comparable(value: unknown) {
+	if (value instanceof Date) return value.getTime();
+	if (typeof value === "bigint") return Number(value);
+	if (isPlainObject(value) && typeof value.toNumber === "function") return value.toNumber();
+
+	return value;
+}
+
+function compareTo(recordValue: unknown, operand: unknown) {
+	if (recordValue instanceof Date && typeof operand === "string") operand = new Date(operand);
+
+	return [comparable(recordValue), comparable(operand)] as const;
+}
+
+function equals(recordValue: unknown, operand: unknown, insensitive: boolean) {
+	const [a, b] = compareTo(recordValue, operand);
+
+	if (insensitive && typeof a === "string" && typeof b === "string") {
+		return a.toLowerCase() === b.toLowerCase();
+	}
+	if (typeof a === "object" || typeof b === "object")
+		return JSON.stringify(a) === JSON.stringify(b);
+
+	return a === b;
+}
+
+/*
+	the operators mapQuery produces from the filters of the REST API,
+	evaluated on a record in memory, every one of them is checked so unsupported
+	ones are reported as soon as the subscription is made rather than on some event
+*/
+function fieldMatches(recordValue: unknown, condition: unknown, key: string): boolean {
+	if (!isPlainObject(condition)) return equals(recordValue, condition, false);
+
+	const insensitive = condition.mode === "insensitive";
+	// lists stored as JSON text are filtered on their JSON, see mapQuery
+	const text = (x: unknown) => {
+		const value = Array.isArray(x) ? JSON.stringify(x) : String(x);
+
+		return insensitive ? value.toLowerCase() : value;
+	};
+	const list = Array.isArray(recordValue) ? recordValue : [];
+	const results = Object.entries(condition).map(([operator, operand]) => {
+		const [a, b] = compareTo(recordValue, operand);
+		const isComparable = a !== null && a !== undefined;
+
+		if (operator === "mode") return true;
+		if (operator === "equals") return equals(recordValue, operand, insensitive);
+		if (operator === "not") {
+			return isPlainObject(operand)
+				? !fieldMatches(recordValue, operand, key)
+				: !equals(recordValue, operand, insensitive);
+		}
+		if (operator === "in" || operator === "notIn") {
+			const isIn = toArray(operand).some(x => equals(recordValue, x, insensitive));
+
+			return operator === "in" ? isIn : !isIn;
+		}
+		if (operator === "lt") return isComparable && (a as number) < (b as number);
+		if (operator === "lte") return isComparable && (a as number) <= (b as number);
+		if (operator === "gt") return isComparable && (a as number) > (b as number);
+		if (operator === "gte") return isComparable && (a as number) >= (b as number);
+		if (operator === "contains") return isComparable && text(a).includes(text(b));
+		if (operator === "startsWith") return isComparable && text(a).startsWith(text(b));
+		if (operator === "endsWith") return isComparable && text(a).endsWith(text(b));
+		if (operator === "has") return list.some(x => equals(x, operand, false));
+		if (operator === "hasSome" || operator === "hasEvery" || operator === "array_contains") {
+			const values = toArray(operand);
+			const has = (x: unknown) => list.some(y => equals(y, x, false));
+
+			return operator === "hasSome" ? values.some(has) : values.every(has);
+		}
+
+		throw unsupported(`${key}.${operator}`);
+	});
+
+	return results.every(Boolean);
+}
+
+/*
+	whether a record matches a Prisma where clause made of the collection's own fields,
+	relations aren't part of the records that change events carry
+*/
+function matchesWhere(record: Row, where: Row): boolean {
+	const results = Object.entries(where).map(([key, condition]) => {
+		const conditions = toArray(condition) as Row[];
+
+		if (key === "AND") return conditions.map(x => matchesWhere(record, x)).every(Boolean);
+		if (key === "OR") return conditions.map(x => matchesWhere(record, x)).some(Boolean);
+		if (key === "NOT") return !conditions.map(x => matchesWhere(record, x)).some(Boolean);
+		if (!(key in record)) throw unsupported(key);
+
+		return fieldMatches(record[key], condition, key);
+	});
+
+	return results.every(Boolean);
+}
+
+export { matchesWhere };
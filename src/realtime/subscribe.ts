@@ -0,0 +1,96 @@
+import {
+	ChangeEvent,
+	EventTriggerPayload,
+	ExistingData,
+	SubscriptionRequest,
+	SystemPandaError,
+	getConfigStore,
+	isReadAllowed,
+	logfile,
+	logger,
+} from "../util/index.js";
+import { mapQuery, queryFields } from "../database/index.js";
+import { matchesWhere } from "./matchesWhere.js";
+import { onChange } from "./changeFeed.js";
+
+const changeEvents: ChangeEvent[] = ["create", "update", "delete"];
+
+const badRequest = (message: string) =>
+	new SystemPandaError({ level: "informative", status: 400, message });
+
+const toRecords = (data: ExistingData) => (Array.isArray(data) ? data : data ? [data] : []);
+
+/*
+	the records a change is about, before and after it,
+	updates of several records carry the updated fields once rather than the records
+*/
+function changedRecords({ event, data }: EventTriggerPayload) {
+	const before = toRecords(data?.before);
+	const after = toRecords(data?.after);
+
+	if (event === "update" && data?.after && !Array.isArray(data.after)) {
+		return [...before, ...before.map(x => ({ ...x, ...data.after }))];
+	}
+
+	return [...before, ...after];
+}
+
+/*
+	subscribes to the changes of a collection, the filters are validated and the read access
+	is checked once here, then the access of every change, with the records it's about,
+	before it's passed to the listener
+*/
+async function subscribe({
+	ctx,
+	cKey,
+	query = {},
+	events = changeEvents,
+	listener,
+}: SubscriptionRequest) {
+	const collectionConfig = getConfigStore().content.collections[cKey];
+	const { where, ...rest } = mapQuery(query, cKey);
+
+	if (Object.keys(rest).length > 0) {
+		throw badRequest("Subscriptions can only be filtered, e.g. '?price[gte]=10'.");
+	}
+
+	if (
+		!Array.isArray(events) ||
+		events.length === 0 ||
+		events.some(x => !changeEvents.includes(x))
+	) {
+		throw badRequest(`'events' must be a list of: ${changeEvents.join(", ")}.`);
+	}
+
+	// the filters are checked against an empty record of the collection, before any change
+	if (where) {
+		matchesWhere(Object.fromEntries(Object.keys(queryFields(cKey)).map(x => [x, null])), where);
+	}
+
+	if (!(await isReadAllowed({ ...ctx, util: { ...ctx.util } }, collectionConfig, null))) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 403,
+			message: "Access denied.",
+		});
+	}
+
+	return onChange(async payload => {
+		try {
+			if (payload.collection.name !== cKey || !events.includes(payload.event as ChangeEvent))
+				return;
+
+			const records = changedRecords(payload);
+
+			if (where && !records.some(x => matchesWhere(x, where))) return;
+
+			const eventCtx = { ...ctx, util: { ...ctx.util } };
+
+			if (await isReadAllowed(eventCtx, collectionConfig, records)) listener(payload);
+		} catch (err: unknown) {
+			await logger(logfile, err as SystemPandaError | Error);
+		}
+	});
+}
+
+export { subscribe };
@@ -1,4 +1,4 @@
-import { SESSION, getDataStore } from "../../util/index.js";
+import { SESSION, SystemPandaError, getDataStore } from "../../util/index.js";
 import { NextFunction, Request, Response } from "express";
 import bcrypt from "bcrypt";
 
@@ -9,7 +9,12 @@ const authenticate = async (req: Request, res: Response, next: NextFunction) =>
 		const { httpOnly, secure, originalMaxAge } = req.session.cookie;
 
 		const missingCreds = [uniqueIdentifierField, secretField].filter(field => !req.body[field]);
-		if (missingCreds.length > 0) throw `Missing credentials: '${missingCreds.join("', '")}'.`;
+		if (missingCreds.length > 0) {
+			throw new SystemPandaError({
+				status: 400,
+				message: `Missing credentials: '${missingCreds.join("', '")}'.`,
+			});
+		}
 
 		const data = await prisma[collectionKey].findUnique({
 			where: {
@@ -18,15 +23,16 @@ const authenticate = async (req: Request, res: Response, next: NextFunction) =>
 		});
 
 		if (!data) {
-			res.status(404);
-			throw `User ${req.body[uniqueIdentifierField]} not found.`;
+			throw new SystemPandaError({
+				status: 404,
+				message: `User ${req.body[uniqueIdentifierField]} not found.`,
+			});
 		}
 
 		const isPasswordMatch = await bcrypt.compare(req.body[secretField], data[secretField]);
 
 		if (!isPasswordMatch) {
-			res.status(400);
-			throw "Invalid password.";
+			throw new SystemPandaError({ status: 400, message: "Invalid password." });
 		}
 
 		req.sessionStore.set(
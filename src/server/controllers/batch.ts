@@ -0,0 +1,16 @@
+import { NextFunction, Request, Response } from "express";
+import { batchOperation } from "../../operations/index.js";
+
+function batch() {
+	return async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			const results = await batchOperation(req.ctx, req.body?.operations);
+
+			res.json({ success: true, results });
+		} catch (err: unknown) {
+			return next(err);
+		}
+	};
+}
+
+export { batch };
@@ -0,0 +1,21 @@
+import { NextFunction, Request, Response } from "express";
+import { aggregateOperation } from "../../operations/index.js";
+
+function collectionAggregate(cKey: string) {
+	return async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			const { data } = await aggregateOperation({
+				ctx: req.ctx,
+				cKey,
+				method: "GET",
+				query: req.query,
+			});
+
+			res.json({ success: true, data });
+		} catch (err: unknown) {
+			return next(err);
+		}
+	};
+}
+
+export { collectionAggregate };
@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from "express";
+import { CollectionMethod, SystemPandaError } from "../../util/index.js";
+import { recordOperation } from "../../operations/index.js";
+
+function collectionItem(cKey: string) {
+	return async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			if (!["get", "patch", "delete"].includes(req.method.toLocaleLowerCase())) {
+				throw new SystemPandaError({
+					level: "warning",
+					status: 405,
+					message: "Method not allowed.",
+				});
+			}
+
+			const { data } = await recordOperation({
+				ctx: req.ctx,
+				cKey,
+				method: req.method as CollectionMethod,
+				id: req.params.id,
+				query: req.query,
+				body: req.body,
+			});
+
+			res.json({ success: true, data });
+		} catch (err: unknown) {
+			return next(err);
+		}
+	};
+}
+
+export { collectionItem };
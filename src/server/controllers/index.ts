@@ -1,2 +1,5 @@
 export * from "./auth.js";
 export * from "./collection.js";
+export * from "./collectionItem.js";
+export * from "./collectionAggregate.js";
+export * from "./batch.js";
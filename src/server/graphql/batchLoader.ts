@@ -0,0 +1,32 @@
+/*
+	collects the keys requested in the same tick and loads them with one call,
+	so resolving a relation on a list of N records takes one query instead of N
+*/
+function batchLoader<K, V>(loadMany: (keys: K[]) => Promise<V[]>) {
+	let queue: { key: K; resolve: (value: V) => void; reject: (err: unknown) => void }[] = [];
+
+	const flush = async () => {
+		const batch = queue;
+		queue = [];
+
+		try {
+			const keys = [...new Set(batch.map(x => x.key))];
+			const values = await loadMany(keys);
+
+			batch.forEach(x => x.resolve(values[keys.indexOf(x.key)]));
+		} catch (err: unknown) {
+			batch.forEach(x => x.reject(err));
+		}
+	};
+
+	return {
+		load: (key: K) =>
+			new Promise<V>((resolve, reject) => {
+				if (queue.length === 0) process.nextTick(flush);
+
+				queue.push({ key, resolve, reject });
+			}),
+	};
+}
+
+export { batchLoader };
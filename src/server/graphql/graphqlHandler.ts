@@ -0,0 +1,135 @@
+import { NextFunction, Request, Response } from "express";
+import {
+	GraphQLError,
+	execute,
+	getOperationAST,
+	parse,
+	specifiedRules,
+	validate,
+	DocumentNode,
+} from "graphql";
+import { SystemPandaError, logfile, logger, normalizeError } from "../../util/index.js";
+import { GraphQLContext, graphqlSchema } from "./graphqlSchema.js";
+import { relationDepthErrors } from "./relationDepth.js";
+
+type GraphQLParams = {
+	query?: unknown;
+	variables?: unknown;
+	operationName?: unknown;
+};
+
+/*
+	errors thrown by the operations keep the status, code and details
+	they'd have over REST, in "extensions"
+*/
+function formatError(err: GraphQLError) {
+	if (!err.originalError) return err.toJSON();
+
+	const { status, code, message, details } = normalizeError(err.originalError);
+
+	return {
+		...err.toJSON(),
+		message,
+		extensions: { status, code, ...(details && { details }) },
+	};
+}
+
+function parseVariables(variables: unknown) {
+	if (typeof variables !== "string") return variables as Record<string, unknown> | undefined;
+
+	try {
+		return JSON.parse(variables);
+	} catch (_) {
+		throw new SystemPandaError({
+			level: "warning",
+			status: 400,
+			message: "The variables aren't valid JSON.",
+		});
+	}
+}
+
+/*
+	GET and POST, like most GraphQL servers,
+	mutations are only run over POST
+*/
+function graphqlHandler() {
+	const schema = graphqlSchema();
+
+	return async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			if (!["GET", "POST"].includes(req.method)) {
+				throw new SystemPandaError({
+					level: "warning",
+					status: 405,
+					message: "Method not allowed.",
+				});
+			}
+
+			const { query, variables, operationName }: GraphQLParams =
+				req.method === "GET" ? req.query : req.body || {};
+
+			if (typeof query !== "string" || !query) {
+				throw new SystemPandaError({
+					level: "warning",
+					status: 400,
+					message: "Expected a 'query'.",
+				});
+			}
+
+			let document: DocumentNode;
+
+			try {
+				document = parse(query);
+			} catch (err: unknown) {
+				return res.status(400).json({ errors: [formatError(err as GraphQLError)] });
+			}
+
+			const validationErrors = validate(schema, document, specifiedRules);
+
+			if (validationErrors.length > 0) {
+				return res.status(400).json({ errors: validationErrors.map(formatError) });
+			}
+
+			const depthErrors = relationDepthErrors(schema, document);
+
+			if (depthErrors.length > 0) {
+				return res.status(400).json({ errors: depthErrors.map(formatError) });
+			}
+
+			const operation = getOperationAST(
+				document,
+				typeof operationName === "string" ? operationName : undefined
+			);
+
+			if (req.method === "GET" && operation?.operation === "mutation") {
+				throw new SystemPandaError({
+					level: "warning",
+					status: 405,
+					message: "Mutations can only be sent with POST.",
+				});
+			}
+
+			const contextValue: GraphQLContext = { ctx: req.ctx, loaders: new Map() };
+			const result = await execute({
+				schema,
+				document,
+				contextValue,
+				variableValues: parseVariables(variables),
+				operationName: typeof operationName === "string" ? operationName : undefined,
+			});
+
+			for (const err of result.errors || []) {
+				await logger(logfile, err.originalError || err);
+			}
+
+			res.json({
+				data: result.data,
+				...(result.errors && { errors: result.errors.map(formatError) }),
+			});
+		} catch (err: unknown) {
+			return next(err);
+		}
+	};
+}
+
+export { graphqlHandler };
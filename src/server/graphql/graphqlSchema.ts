@@ -0,0 +1,344 @@
+import {
+	GraphQLBoolean,
+	GraphQLEnumType,
+	GraphQLFieldConfigMap,
+	GraphQLFloat,
+	GraphQLID,
+	GraphQLInputFieldConfigMap,
+	GraphQLInputObjectType,
+	GraphQLInputType,
+	GraphQLInt,
+	GraphQLList,
+	GraphQLNonNull,
+	GraphQLObjectType,
+	GraphQLOutputType,
+	GraphQLScalarType,
+	GraphQLSchema,
+	GraphQLString,
+	valueFromASTUntyped,
+} from "graphql";
+import {
+	Context,
+	PrismaModel,
+	PrismaModelField,
+	RequestBody,
+	POPULATE,
+	SystemPandaError,
+	getConfigStore,
+	getDataStore,
+	authorizeIncludes,
+	toQueryParams,
+} from "../../util/index.js";
+import { typeName } from "../../collections/index.js";
+import { decodeLists } from "../../database/index.js";
+import { collectionOperation, collectionTarget, recordOperation } from "../../operations/index.js";
+import { batchLoader } from "./batchLoader.js";
+
+type GraphQLContext = {
+	ctx: Context;
+	loaders: Map<string, ReturnType<typeof batchLoader<unknown, unknown>>>;
+};
+type Args = Record<string, unknown>;
+
+const JSONScalar = new GraphQLScalarType({
+	name: "JSON",
+	description: "Any JSON value.",
+	parseValue: value => value,
+	parseLiteral: ast => valueFromASTUntyped(ast),
+});
+
+const DateTimeScalar = new GraphQLScalarType({
+	name: "DateTime",
+	description: "An ISO 8601 date and time.",
+	serialize: value => (value instanceof Date ? value.toISOString() : value),
+});
+
+// BigInts don't fit in GraphQL's 32-bit Int, they're passed as strings
+const BigIntScalar = new GraphQLScalarType({
+	name: "BigInt",
+	description: "A 64-bit integer, as a string.",
+	serialize: value => String(value),
+	parseValue: value => BigInt(value as string),
+	parseLiteral: ast => ("value" in ast ? BigInt(ast.value as string) : undefined),
+});
+
+const scalarTypes: Record<string, GraphQLScalarType> = {
+	String: GraphQLString,
+	Boolean: GraphQLBoolean,
+	Int: GraphQLInt,
+	BigInt: BigIntScalar,
+	Float: GraphQLFloat,
+	Decimal: GraphQLString,
+	DateTime: DateTimeScalar,
+	Json: JSONScalar,
+};
+
+/*
+	every resolver works on its own copy of the request's context,
+	resolvers run concurrently and the current hook is tracked on it
+*/
+const operationCtx = ({ ctx }: GraphQLContext): Context => ({ ...ctx, util: { ...ctx.util } });
+
+const listOf = (type: GraphQLOutputType) =>
+	new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+/*
+	relation fields are loaded in batches per request, through the records holding them,
+	after the related collection's read access is checked, like an "include" over REST
+*/
+function relationResolver(cKey: string, field: PrismaModelField, idName: string) {
+	return async (record: Args, _: Args, context: GraphQLContext) => {
+		const loaderKey = `${cKey}.${field.name}`;
+
+		if (!context.loaders.has(loaderKey)) {
+			context.loaders.set(
+				loaderKey,
+				batchLoader(async ids => {
+					const ctx = operationCtx(context);
+					const { query, collectionConfig } = collectionTarget(cKey);
+
+					await authorizeIncludes(ctx, collectionConfig, { [field.name]: true });
+
+					const records = decodeLists(
+						cKey,
+						await query.findMany({
+							where: { [idName]: { in: ids } },
+							select: { [idName]: true, [field.name]: true },
+						})
+					);
+
+					return ids.map(
+						id =>
+							records.find((x: Args) => x[idName] === id)?.[field.name] ??
+							(field.list ? [] : null)
+					);
+				})
+			);
+		}
+
+		return context.loaders.get(loaderKey)?.load(record[idName]);
+	};
+}
+
+/*
+	builds the schema from the collections served by the REST API and their generated models:
+	a type per collection with its relations, "[collection](id)" and "[collection]List" queries,
+	and create/update/delete mutations, all going through the same operations as REST
+*/
+function graphqlSchema() {
+	const { collections } = getConfigStore().content;
+	const { schema } = getDataStore();
+	const models: Record<string, PrismaModel> = schema?.models || {};
+	const enums: Record<string, GraphQLEnumType> = {};
+	const objectTypes: Record<string, GraphQLObjectType> = {};
+	const query: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+	const mutation: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+
+	const enumType = (name: string) => {
+		enums[name] ??= new GraphQLEnumType({
+			name,
+			values: Object.fromEntries((schema?.enums[name] || []).map(x => [x, { value: x }])),
+		});
+
+		return enums[name];
+	};
+
+	const scalarType = (field: PrismaModelField) =>
+		field.kind === "enum" ? enumType(field.type) : scalarTypes[field.type] || JSONScalar;
+
+	for (const [cKey, collection] of Object.entries(collections)) {
+		const model = models[cKey];
+
+		if (!model) continue;
+
+		const name = typeName(cKey);
+		const idName = collection.id?.name || "id";
+		const idType =
+			!collection.id?.type || collection.id.type === "autoincrement" ? "Int" : "String";
+		const foreignKeys = Object.values(model.fields).flatMap(x => x.relation?.fields || []);
+		// of the relations selected from the queries and mutations of the collection
+		const extensions = { maxDepth: collection.populate?.maxDepth ?? POPULATE.MAX_DEPTH };
+
+		// relations resolve once the types of every collection exist
+		const outputFields = () => {
+			const fields: GraphQLFieldConfigMap<Args, GraphQLContext> = {};
+
+			for (const field of Object.values(model.fields)) {
+				if (field.kind === "object") {
+					const target = objectTypes[field.type];
+
+					if (target) {
+						fields[field.name] = {
+							type: field.list ? listOf(target) : target,
+							resolve: relationResolver(cKey, field, idName),
+							// counted towards the maximum depth, see relationDepth
+							extensions: { relation: true },
+						};
+					}
+					continue;
+				}
+
+				const type = scalarType(field);
+
+				if (field.list) fields[field.name] = { type: listOf(type) };
+				else
+					fields[field.name] = { type: field.optional ? type : new GraphQLNonNull(type) };
+			}
+
+			return fields;
+		};
+
+		objectTypes[cKey] = new GraphQLObjectType({ name, fields: outputFields });
+
+		// relations are written with the same nested operations as over REST, as JSON
+		const inputFields = (create: boolean): GraphQLInputFieldConfigMap =>
+			Object.fromEntries(
+				Object.values(model.fields).flatMap(field => {
+					const isGenerated =
+						field.isId || field.isUpdatedAt || foreignKeys.includes(field.name);
+
+					if (isGenerated) return [];
+					if (field.kind === "object") return [[field.name, { type: JSONScalar }]];
+
+					const type: GraphQLInputType = field.list
+						? new GraphQLList(new GraphQLNonNull(scalarType(field)))
+						: scalarType(field);
+					const isRequired =
+						create && !field.optional && !field.list && field.default === undefined;
+
+					return [[field.name, { type: isRequired ? new GraphQLNonNull(type) : type }]];
+				})
+			);
+
+		const createInput = new GraphQLInputObjectType({
+			name: `${name}CreateInput`,
+			fields: inputFields(true),
+		});
+		const updateInput = new GraphQLInputObjectType({
+			name: `${name}UpdateInput`,
+			fields: inputFields(false),
+		});
+		const page = new GraphQLObjectType({
+			name: `${name}Page`,
+			fields: {
+				data: { type: listOf(objectTypes[cKey]) },
+				total: { type: new GraphQLNonNull(GraphQLInt) },
+				pageSize: { type: new GraphQLNonNull(GraphQLInt) },
+				hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+				nextCursor: { type: GraphQLString },
+			},
+		});
+		const id = { type: new GraphQLNonNull(GraphQLID) };
+		const record = (method: "GET" | "PATCH" | "DELETE", args: Args, context: GraphQLContext) =>
+			recordOperation({
+				ctx: operationCtx(context),
+				cKey,
+				method,
+				id: String(args.id),
+				body: { data: args.data as RequestBody["data"] },
+			});
+
+		query[cKey] = {
+			type: objectTypes[cKey],
+			extensions,
+			description: `A ${cKey} record by its ${idName} (${idType}).`,
+			args: { id },
+			resolve: async (_, args, context) => {
+				try {
+					return (await record("GET", args, context)).data;
+				} catch (err: unknown) {
+					if (err instanceof SystemPandaError && err.status === 404) return null;
+
+					throw err;
+				}
+			},
+		};
+
+		query[`${cKey}List`] = {
+			type: new GraphQLNonNull(page),
+			extensions,
+			description: `A page of ${cKey} records, "filter" takes the REST filters, e.g. { price: { gte: 10 } }.`,
+			args: {
+				filter: { type: JSONScalar },
+				where: { type: JSONScalar, description: "A Prisma where clause." },
+				orderBy: { type: GraphQLString, description: "e.g. 'year:desc,title'" },
+				distinct: { type: GraphQLString },
+				take: { type: GraphQLInt },
+				skip: { type: GraphQLInt },
+				cursor: { type: GraphQLString },
+			},
+			resolve: async (_, { filter, where, ...args }, context) => {
+				const { data, pagination } = await collectionOperation({
+					ctx: operationCtx(context),
+					cKey,
+					method: "GET",
+					query: {
+						...(toQueryParams(filter || {}) as Args),
+						...(toQueryParams(args) as Args),
+						...(where !== undefined && { where: JSON.stringify(where) }),
+					},
+				});
+
+				return { data, ...pagination };
+			},
+		};
+
+		mutation[`create${name}`] = {
+			type: objectTypes[cKey],
+			extensions,
+			args: { data: { type: new GraphQLNonNull(createInput) } },
+			resolve: async (_, { data }, context) =>
+				(
+					await collectionOperation({
+						ctx: operationCtx(context),
+						cKey,
+						method: "POST",
+						body: { data },
+					})
+				).data.after,
+		};
+
+		mutation[`create${name}Many`] = {
+			type: listOf(objectTypes[cKey]),
+			extensions,
+			args: {
+				data: {
+					type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(createInput))),
+				},
+				skipDuplicates: { type: GraphQLBoolean },
+			},
+			resolve: async (_, { data, skipDuplicates }, context) =>
+				(
+					await collectionOperation({
+						ctx: operationCtx(context),
+						cKey,
+						method: "POST",
+						body: { data, skipDuplicates },
+					})
+				).data.after,
+		};
+
+		mutation[`update${name}`] = {
+			type: objectTypes[cKey],
+			extensions,
+			args: { id, data: { type: new GraphQLNonNull(updateInput) } },
+			resolve: async (_, args, context) => (await record("PATCH", args, context)).data.after,
+		};
+
+		mutation[`delete${name}`] = {
+			type: objectTypes[cKey],
+			extensions,
+			description: "Returns the deleted record.",
+			args: { id },
+			resolve: async (_, args, context) =>
+				(await record("DELETE", args, context)).data.before,
+		};
+	}
+
+	return new GraphQLSchema({
+		query: new GraphQLObjectType({ name: "Query", fields: query }),
+		mutation: new GraphQLObjectType({ name: "Mutation", fields: mutation }),
+	});
+}
+
+export { graphqlSchema, GraphQLContext };
@@ -0,0 +1,2 @@
+export * from "./graphqlSchema.js";
+export * from "./graphqlHandler.js";
@@ -0,0 +1,87 @@
+import {
+	DocumentNode,
+	FragmentDefinitionNode,
+	GraphQLError,
+	GraphQLObjectType,
+	GraphQLSchema,
+	Kind,
+	SelectionSetNode,
+	getNamedType,
+	isObjectType,
+} from "graphql";
+
+/*
+	relation fields nest no deeper than the populate.maxDepth of the collection
+	a query or mutation starts from, like "include" over REST,
+	so a single query can't fan out without bounds, checked on valid documents only
+*/
+function relationDepthErrors(schema: GraphQLSchema, document: DocumentNode) {
+	const errors: GraphQLError[] = [];
+	const fragments: Record<string, FragmentDefinitionNode> = {};
+
+	for (const definition of document.definitions) {
+		if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+			fragments[definition.name.value] = definition;
+		}
+	}
+
+	const walk = (
+		selectionSet: SelectionSetNode | undefined,
+		type: GraphQLObjectType,
+		path: string[],
+		depth: number,
+		maxDepth: number
+	) => {
+		for (const selection of selectionSet?.selections || []) {
+			if (selection.kind === Kind.FRAGMENT_SPREAD) {
+				walk(fragments[selection.name.value]?.selectionSet, type, path, depth, maxDepth);
+				continue;
+			}
+			if (selection.kind === Kind.INLINE_FRAGMENT) {
+				walk(selection.selectionSet, type, path, depth, maxDepth);
+				continue;
+			}
+
+			const field = type.getFields()[selection.name.value];
+
+			// e.g. "__typename"
+			if (!field) continue;
+
+			const fieldPath = [...path, selection.name.value];
+			const fieldDepth = depth + (field.extensions.relation ? 1 : 0);
+			const fieldMaxDepth = (field.extensions.maxDepth as number | undefined) ?? maxDepth;
+
+			if (fieldDepth > fieldMaxDepth) {
+				errors.push(
+					new GraphQLError(
+						`'${fieldPath.join(
+							"."
+						)}' is nested deeper than the maximum depth of ${fieldMaxDepth}.`,
+						{ nodes: selection }
+					)
+				);
+				continue;
+			}
+
+			const namedType = getNamedType(field.type);
+
+			if (isObjectType(namedType)) {
+				walk(selection.selectionSet, namedType, fieldPath, fieldDepth, fieldMaxDepth);
+			}
+		}
+	};
+
+	for (const definition of document.definitions) {
+		if (definition.kind !== Kind.OPERATION_DEFINITION) continue;
+
+		const root =
+			definition.operation === "mutation" ? schema.getMutationType() : schema.getQueryType();
+
+		// every root field sets the maximum depth of its collection
+		if (root) walk(definition.selectionSet, root, [], 0, Infinity);
+	}
+
+	return errors;
+}
+
+export { relationDepthErrors };
@@ -2,15 +2,17 @@ import express, { static as serveStatic } from "express";
 import { plugins } from "../plugins/index.js";
 import { beforeMiddlewaresHandler, errHandler, internalMiddlewares } from "./middlewares/index.js";
 import {
-	Context,
+	BaseContext,
 	MiddlewareHandler,
 	getDataStore,
 	setDataStore,
 	routes,
 	getConfigStore,
 	staticDir,
+	errorBody,
 } from "../util/index.js";
 import { apiHandler } from "./routers/index.js";
+import { handleUpgrades } from "./realtime/index.js";
 
 async function server() {
 	const { content, settings } = getConfigStore();
@@ -23,6 +25,7 @@ async function server() {
 		authSession,
 		isAccessAllowed,
 		disableAdminUI,
+		realtime,
 	} = settings;
 
 	const prisma = getDataStore().prisma;
@@ -38,38 +41,35 @@ async function server() {
 	const beforeMiddlewares = beforeMiddlewaresHandler(defaultMiddlewares || {}, authSession);
 	const afterMiddlewares: MiddlewareHandler[] = [];
 
-	const ctx: Context = {
-		express: {
-			req: app.request,
-			res: app.response,
-		},
+	const baseCtx: BaseContext = {
 		collections,
 		prisma,
-		sessionData: undefined,
-		customVars: {},
-		bools: {},
-		util: {
-			currentHook: "beforeOperation",
-		},
+		customVars: { app: {} },
 	};
 
-	app.use(beforeMiddlewares, internalMiddlewares(ctx));
-	app.use((_, res, next) =>
-		isAccessAllowed && !isAccessAllowed(ctx) ? res.sendStatus(401) : next()
-	);
+	app.use(beforeMiddlewares, internalMiddlewares(baseCtx));
+	app.use((req, res, next) => {
+		if (!isAccessAllowed || isAccessAllowed(req.ctx)) return next();
+
+		res.status(401).json(errorBody({ code: "UNAUTHENTICATED", message: "Access denied." }));
+	});
 	if (!disableAdminUI) app.use(routes.static, serveStatic(staticDir, { extensions: ["html"] }));
-	app.use(routes.api, apiHandler(ctx, globalWebhooks || []));
+	app.use(routes.api, apiHandler(globalWebhooks || []));
 	if (!disableAdminUI) app.get("*", (req, res) => res.sendFile(`${staticDir}/index.html`));
-	if (extendServer) extendServer(app, ctx);
-	app.all("*", (_, res) => res.status(404).json({ success: false, message: "Not Found." }));
+	if (extendServer) extendServer(app, baseCtx);
+	app.all("*", (_, res) =>
+		res.status(404).json(errorBody({ code: "NOT_FOUND", message: "Not Found." }))
+	);
 	if (afterMiddlewares.length > 0) app.use(afterMiddlewares);
 	app.use(errHandler);
 
-	app.listen(port, () => {
+	const httpServer = app.listen(port, () => {
 		console.log(
 			`🐼 Connected to ${db.URI} via Prisma ORM.\n🐼 SystemPanda live on http://localhost:${port}.`
 		);
 	});
+
+	if (realtime !== false && realtime?.webSocket !== false) handleUpgrades(httpServer, app);
 }
 
 export { server };
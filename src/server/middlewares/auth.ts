@@ -1,5 +1,5 @@
 import { NextFunction, Request, Response } from "express";
-import { SESSION } from "../../util/index.js";
+import { SESSION, errorBody } from "../../util/index.js";
 
 function ifAuthenticated(req: Request, res: Response, next: NextFunction) {
 	try {
@@ -7,7 +7,11 @@ function ifAuthenticated(req: Request, res: Response, next: NextFunction) {
 			if (err) return next(err);
 
 			if (session) return next();
-			else return res.sendStatus(401);
+			else {
+				return res
+					.status(401)
+					.json(errorBody({ code: "UNAUTHENTICATED", message: "Not authenticated." }));
+			}
 		});
 	} catch (err) {
 		next(err);
@@ -1,21 +1,15 @@
-import { SystemPandaError, logfile, logger, isPrismaErr } from "../../util/index.js";
+import { SystemPandaError, logfile, logger, normalizeError, errorBody } from "../../util/index.js";
 import { ErrorRequestHandler } from "express";
 
+/*
+	errors without a status of their own keep the one a handler set before throwing,
+	if it set any
+*/
 const errHandler: ErrorRequestHandler = async (err, _, res, __) => {
-	const success = false;
-
 	if (!res.headersSent) {
-		res.status(500);
+		const error = normalizeError(err, res.statusCode >= 400 ? res.statusCode : 500);
 
-		if (isPrismaErr(err)) {
-			res.json({ success, message: err.message });
-		} else {
-			res.json({
-				success,
-				message:
-					err instanceof Error || err instanceof SystemPandaError ? err.message : err,
-			});
-		}
+		res.status(error.status).json(errorBody(error));
 	}
 
 	await logger(logfile, err as SystemPandaError | Error);
@@ -1,14 +1,15 @@
 import { Request, Response, NextFunction } from "express";
 import {
-	Context,
+	BaseContext,
 	SESSION,
+	createContext,
 	filterObjByKeys,
 	getConfigStore,
 	getDataStore,
 	internalTablesKeys,
 } from "../../util/index.js";
 
-function internalMiddlewares(ctx: Context) {
+function internalMiddlewares(baseCtx: BaseContext) {
 	const {
 		settings: { authSession },
 	} = getConfigStore();
@@ -16,7 +17,8 @@ function internalMiddlewares(ctx: Context) {
 		try {
 			const { relationKey, secretField } = getDataStore().authFields;
 
-			ctx.express = { req, res };
+			const ctx = createContext(baseCtx, req, res);
+			req.ctx = ctx;
 
 			if (req.cookies[SESSION.COOKIE_NAME]) {
 				const data = await ctx.prisma[internalTablesKeys.sessions].findUnique({
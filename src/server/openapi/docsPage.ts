@@ -0,0 +1,50 @@
+import express, { static as serveStatic } from "express";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+// swagger-ui-dist is served as it is, the page only points it to the document
+const swaggerUiDir = path.dirname(
+	createRequire(import.meta.url).resolve("swagger-ui-dist/package.json")
+);
+
+/*
+	the document is loaded by a script file rather than an inline one,
+	so the page works with helmet's default Content-Security-Policy
+*/
+function docsPage(basePath: string, documentPath: string) {
+	const router = express.Router();
+	const title = "SystemPanda REST API";
+
+	router.get("/", (_, res) =>
+		res.type("html").send(`<!DOCTYPE html>
+<html lang="en">
+	<head>
+		<meta charset="utf-8" />
+		<title>${title}</title>
+		<link rel="stylesheet" href="${basePath}/swagger-ui.css" />
+	</head>
+	<body>
+		<div id="swagger-ui"></div>
+		<script src="${basePath}/swagger-ui-bundle.js"></script>
+		<script src="${basePath}/init.js"></script>
+	</body>
+</html>
+`)
+	);
+
+	router.get("/init.js", (_, res) =>
+		res
+			.type("js")
+			.send(
+				`window.ui = SwaggerUIBundle({ url: ${JSON.stringify(
+					documentPath
+				)}, dom_id: "#swagger-ui", withCredentials: true });\n`
+			)
+	);
+
+	router.use(serveStatic(swaggerUiDir, { index: false }));
+
+	return router;
+}
+
+export { docsPage };
@@ -0,0 +1,2 @@
+export * from "./openApiDocument.js";
+export * from "./docsPage.js";
@@ -0,0 +1,641 @@
+import {
+	Collection,
+	Field,
+	PrismaModel,
+	SESSION,
+	getConfigStore,
+	getDataStore,
+	PAGINATION,
+	routes,
+} from "../../util/index.js";
+import { relationKey, resolveRelations, typeName } from "../../collections/index.js";
+import { listOperators, operatorsByType, queryFields } from "../../database/index.js";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: Schema) => ({ "application/json": { schema } });
+const oneOrMany = (schema: Schema) => ({ oneOf: [schema, { type: "array", items: schema }] });
+const errorResponse = (description: string) => ({ description, content: json(ref("Error")) });
+
+const errorResponses = {
+	400: errorResponse("Invalid query parameters or request body."),
+	401: errorResponse("Not authenticated."),
+	403: errorResponse("Denied by a beforeOperation hook."),
+	500: errorResponse("Unexpected error."),
+};
+
+// Decimals are serialized as strings to keep their precision
+const scalarSchemas: Record<string, Schema> = {
+	String: { type: "string" },
+	Boolean: { type: "boolean" },
+	Int: { type: "integer" },
+	BigInt: { type: "integer", format: "int64" },
+	Float: { type: "number" },
+	Decimal: { type: "string", format: "decimal" },
+	DateTime: { type: "string", format: "date-time" },
+	Json: {},
+};
+
+const errorSchema = {
+	type: "object",
+	required: ["success", "error"],
+	properties: {
+		success: { type: "boolean", enum: [false] },
+		error: {
+			type: "object",
+			required: ["code", "message"],
+			properties: {
+				code: {
+					type: "string",
+					description: "Stable and machine-readable, e.g. 'NOT_FOUND'.",
+				},
+				message: { type: "string" },
+				details: {
+					type: "object",
+					properties: {
+						errors: {
+							type: "object",
+							description: "Error messages per field, on 422s.",
+							additionalProperties: { type: "array", items: { type: "string" } },
+						},
+						fields: {
+							type: "array",
+							description: "Fields of the violated unique constraint, on 409s.",
+							items: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+	},
+};
+
+const idSchema = (collection?: Collection) => ({
+	type: !collection?.id?.type || collection.id.type === "autoincrement" ? "integer" : "string",
+});
+
+function fieldSchema(field: Exclude<Field, { type: "relation" }>) {
+	const { validation } = field;
+	let schema: Schema = scalarSchemas[field.type === "number" ? field.subtype : field.type] || {};
+
+	if (field.type === "enum") schema = { type: "string", enum: field.values };
+
+	if (validation) {
+		const { minLength, maxLength, min, max, pattern, format, oneOf } = validation;
+
+		schema = {
+			...schema,
+			...(minLength !== undefined && { minLength }),
+			...(maxLength !== undefined && { maxLength }),
+			...(min !== undefined && { minimum: min }),
+			...(max !== undefined && { maximum: max }),
+			...(pattern !== undefined && {
+				pattern: pattern instanceof RegExp ? pattern.source : pattern,
+			}),
+			...(format && { format: format === "url" ? "uri" : format }),
+			...(oneOf && { enum: oneOf }),
+		};
+	}
+
+	if (field.list) schema = { type: "array", items: schema };
+	if (!field.required) schema = { ...schema, nullable: true };
+
+	return schema;
+}
+
+/*
+	records as they're returned, from the generated Prisma model,
+	relations are only part of them when they're included
+*/
+function recordSchema(model: PrismaModel, collectionKeys: string[]) {
+	const { schema } = getDataStore();
+	const properties: Record<string, Schema> = {};
+	const required: string[] = [];
+
+	for (const { name, type, kind, list, optional } of Object.values(model.fields)) {
+		if (kind === "object") {
+			const target = collectionKeys.includes(type) ? ref(typeName(type)) : { type: "object" };
+			const description = "Only returned when included.";
+
+			if (list) properties[name] = { type: "array", items: target, description };
+			else properties[name] = { allOf: [target], nullable: true, description };
+			continue;
+		}
+
+		let property: Schema = scalarSchemas[type] || {};
+
+		if (kind === "enum") property = { type: "string", enum: schema?.enums[type] };
+
+		if (list) property = { type: "array", items: property };
+		if (optional) property = { ...property, nullable: true };
+
+		properties[name] = property;
+		required.push(name);
+	}
+
+	return { type: "object", required, properties };
+}
+
+/*
+	create and update inputs, from the collection's config,
+	relations are written with connect, disconnect, set and create
+*/
+function inputSchema(cKey: string, collection: Collection, operation: "create" | "update") {
+	const { internal, visible } = getDataStore().normalizedCollections;
+	const collections = { ...internal, ...visible };
+	const { relations } = resolveRelations(collections);
+	const { content } = getConfigStore();
+	const properties: Record<string, Schema> = {};
+	const required: string[] = [];
+
+	for (const [fieldName, field] of Object.entries(collection.fields)) {
+		if (field.type !== "relation") {
+			properties[fieldName] = fieldSchema(field);
+
+			if (operation === "create" && field.required && !field.defaultValue && !field.list) {
+				required.push(fieldName);
+			}
+			continue;
+		}
+
+		const { target } = relations[relationKey(cKey, fieldName)] || {};
+		const targetId = idSchema(collections[target]);
+		const targetIdName = collections[target]?.id?.name || "id";
+		const recordRef = {
+			oneOf: [
+				targetId,
+				{
+					type: "object",
+					required: [targetIdName],
+					properties: { [targetIdName]: targetId },
+				},
+			],
+		};
+		const created = content.collections[target]
+			? ref(`${typeName(target)}CreateInput`)
+			: { type: "object" };
+		const write: Record<string, Schema> = field.many
+			? { connect: oneOrMany(recordRef), create: oneOrMany(created) }
+			: { connect: recordRef, create: created };
+
+		if (operation === "update" && field.many) {
+			write.disconnect = oneOrMany(recordRef);
+			write.set = oneOrMany(recordRef);
+		} else if (operation === "update") {
+			write.disconnect = { type: "boolean", enum: [true] };
+		}
+
+		properties[fieldName] = { type: "object", additionalProperties: false, properties: write };
+	}
+
+	return {
+		type: "object",
+		additionalProperties: false,
+		...(required.length > 0 && { required }),
+		properties,
+	};
+}
+
+// one deepObject parameter per field, e.g. "price[gte]=10", see mapQuery
+function filterParameters(cKey: string) {
+	return Object.entries(queryFields(cKey)).map(([name, field]) => {
+		if (field.kind === "relation") {
+			return {
+				name,
+				in: "query",
+				style: "deepObject",
+				explode: true,
+				description: `Filter by the fields of '${field.ref}'${
+					field.many ? ", with some, every or none" : ""
+				}, e.g. '${name}${field.many ? "[some]" : ""}[field]=value'.`,
+				schema: { type: "object" },
+			};
+		}
+
+		const value: Schema = scalarSchemas[field.type] || { type: "string", enum: field.values };
+		const operators = field.list ? listOperators : operatorsByType[field.type];
+		const operatorSchema = (operator: string): Schema => {
+			if (["in", "notIn", "hasSome", "hasEvery"].includes(operator)) {
+				return { type: "string", description: "Comma-separated values." };
+			}
+			if (operator === "isNull") return { type: "boolean" };
+			if (operator === "mode") return { type: "string", enum: ["default", "insensitive"] };
+
+			return value;
+		};
+
+		return {
+			name,
+			in: "query",
+			style: "deepObject",
+			explode: true,
+			description: `'${name}=value' filters by equality, '${name}[operator]=value' with an operator.`,
+			schema: {
+				type: "object",
+				properties: Object.fromEntries(operators.map(x => [x, operatorSchema(x)])),
+			},
+		};
+	});
+}
+
+const commaSeparated = (name: string, description: string) => ({
+	name,
+	in: "query",
+	description,
+	schema: { type: "string" },
+});
+
+const includeParameters = [
+	commaSeparated(
+		"include",
+		"Relations to return, nested ones with a dot, e.g. 'relation_album.relation_song'."
+	),
+	commaSeparated("populate", "Same as 'include'."),
+];
+
+function listParameters(cKey: string, collection: Collection) {
+	const defaultTake = collection.pagination?.defaultTake ?? PAGINATION.DEFAULT_TAKE;
+	const maxTake = collection.pagination?.maxTake ?? PAGINATION.MAX_TAKE;
+
+	return [
+		{
+			name: "take",
+			in: "query",
+			schema: { type: "integer", minimum: 0, maximum: maxTake, default: defaultTake },
+		},
+		{ name: "skip", in: "query", schema: { type: "integer", minimum: 0 } },
+		{
+			name: "cursor",
+			in: "query",
+			description: "The 'nextCursor' of the previous page.",
+			schema: { type: "string" },
+		},
+		commaSeparated(
+			"orderBy",
+			"Fields with an optional ':asc' or ':desc', e.g. 'year:desc,title'."
+		),
+		commaSeparated("select", "Fields to return, can't be used with 'include'."),
+		commaSeparated("distinct", "Fields whose combination of values is returned once."),
+		...includeParameters,
+		{
+			name: "where",
+			in: "query",
+			description: "A Prisma where clause as JSON, combined with the other filters.",
+			schema: { type: "string" },
+		},
+		...filterParameters(cKey),
+	];
+}
+
+const writeResult = (before: Schema, after: Schema) => ({
+	description: "The records before and after the operation.",
+	content: json({
+		type: "object",
+		properties: {
+			success: { type: "boolean", enum: [true] },
+			data: { type: "object", properties: { before, after } },
+		},
+	}),
+});
+
+function collectionPaths(cKey: string, collection: Collection) {
+	const name = typeName(cKey);
+	const record = ref(name);
+	const records = { type: "array", items: record };
+	const where = { type: "object", description: "A Prisma where clause." };
+	const all = {
+		type: "boolean",
+		description: "Required to update every record, without a 'where'.",
+	};
+	const tags = [cKey];
+	const writeErrors = {
+		...errorResponses,
+		409: errorResponse("A unique constraint was violated."),
+		422: errorResponse("The data failed the validation rules of the fields."),
+	};
+	const body = (properties: Schema, required: string[]) => ({
+		required: true,
+		content: json({ type: "object", required, properties }),
+	});
+
+	return {
+		"": {
+			get: {
+				tags,
+				summary: `List ${cKey} records`,
+				parameters: listParameters(cKey, collection),
+				responses: {
+					200: {
+						description: "A page of records.",
+						content: json({
+							type: "object",
+							properties: {
+								success: { type: "boolean", enum: [true] },
+								data: records,
+								total: { type: "integer" },
+								pageSize: { type: "integer" },
+								hasNextPage: { type: "boolean" },
+								nextCursor: { type: "string", nullable: true },
+							},
+						}),
+					},
+					...errorResponses,
+				},
+			},
+			post: {
+				tags,
+				summary: `Create one or several ${cKey} records`,
+				requestBody: body(
+					{
+						data: oneOrMany(ref(`${name}CreateInput`)),
+						skipDuplicates: { type: "boolean" },
+					},
+					["data"]
+				),
+				responses: { 200: writeResult({ nullable: true }, records), ...writeErrors },
+			},
+			put: {
+				tags,
+				summary: `Replace the matching ${cKey} records`,
+				requestBody: body({ where, data: ref(`${name}CreateInput`), all }, ["data"]),
+				responses: {
+					200: writeResult(records, records),
+					404: errorResponse("No records matched."),
+					...writeErrors,
+				},
+			},
+			patch: {
+				tags,
+				summary: `Update the matching ${cKey} records`,
+				requestBody: body({ where, data: ref(`${name}UpdateInput`), all }, ["data"]),
+				responses: {
+					200: writeResult(records, records),
+					404: errorResponse("No records matched."),
+					...writeErrors,
+				},
+			},
+			delete: {
+				tags,
+				summary: `Delete the matching ${cKey} records`,
+				requestBody: body({ where }, ["where"]),
+				responses: {
+					200: writeResult(records, { type: "object" }),
+					404: errorResponse("No records matched."),
+					...errorResponses,
+				},
+			},
+		},
+		"/aggregate": {
+			get: {
+				tags,
+				summary: `Aggregate ${cKey} records, optionally grouped`,
+				parameters: [
+					commaSeparated(
+						"_count",
+						"Fields to count non-null values of, '*' for records."
+					),
+					commaSeparated("_sum", "Number fields to sum."),
+					commaSeparated("_avg", "Number fields to average."),
+					commaSeparated("_min", "Fields to return the lowest value of."),
+					commaSeparated("_max", "Fields to return the highest value of."),
+					commaSeparated("groupBy", "Fields to group the records by."),
+					commaSeparated(
+						"orderBy",
+						"With 'groupBy', its fields or aggregates with an optional ':asc' or ':desc', e.g. '_sum.price:desc'."
+					),
+					{ name: "take", in: "query", schema: { type: "integer", minimum: 0 } },
+					{ name: "skip", in: "query", schema: { type: "integer", minimum: 0 } },
+					{
+						name: "where",
+						in: "query",
+						description:
+							"A Prisma where clause as JSON, combined with the other filters.",
+						schema: { type: "string" },
+					},
+					...filterParameters(cKey),
+				],
+				responses: {
+					200: {
+						description: "The aggregates, a group per item with 'groupBy'.",
+						content: json({
+							type: "object",
+							properties: {
+								success: { type: "boolean", enum: [true] },
+								data: oneOrMany({ type: "object" }),
+							},
+						}),
+					},
+					...errorResponses,
+				},
+			},
+		},
+		"/{id}": {
+			parameters: [{ name: "id", in: "path", required: true, schema: idSchema(collection) }],
+			get: {
+				tags,
+				summary: `Read a ${cKey} record`,
+				parameters: includeParameters,
+				responses: {
+					200: {
+						description: "The record.",
+						content: json({
+							type: "object",
+							properties: {
+								success: { type: "boolean", enum: [true] },
+								data: record,
+							},
+						}),
+					},
+					404: errorResponse("No record has this ID."),
+					...errorResponses,
+				},
+			},
+			patch: {
+				tags,
+				summary: `Update a ${cKey} record`,
+				requestBody: body({ data: ref(`${name}UpdateInput`) }, ["data"]),
+				responses: {
+					200: writeResult(record, record),
+					404: errorResponse("No record has this ID."),
+					...writeErrors,
+				},
+			},
+			delete: {
+				tags,
+				summary: `Delete a ${cKey} record`,
+				responses: {
+					200: writeResult(record, { nullable: true }),
+					404: errorResponse("No record has this ID."),
+					...errorResponses,
+				},
+			},
+		},
+	};
+}
+
+/*
+	OpenAPI 3.0 description of the REST API,
+	generated from the collections and the schema on startup
+*/
+function openApiDocument() {
+	const {
+		content: { collections },
+		settings: { healthCheck, batch },
+	} = getConfigStore();
+	const { schema, authFields } = getDataStore();
+	const collectionKeys = Object.keys(collections);
+	const schemas: Record<string, Schema> = { Error: errorSchema };
+	const paths: Record<string, unknown> = {};
+
+	for (const [cKey, collection] of Object.entries(collections)) {
+		const name = typeName(cKey);
+		const model = schema?.models[cKey];
+
+		if (model) schemas[name] = recordSchema(model, collectionKeys);
+		schemas[`${name}CreateInput`] = inputSchema(cKey, collection, "create");
+		schemas[`${name}UpdateInput`] = inputSchema(cKey, collection, "update");
+
+		for (const [suffix, path] of Object.entries(collectionPaths(cKey, collection))) {
+			paths[`/collections/${collection.slug || cKey}${suffix}`] = path;
+		}
+	}
+
+	const { uniqueIdentifierField = "email", secretField = "password" } = authFields;
+
+	paths["/auth/login"] = {
+		post: {
+			tags: ["auth"],
+			summary: "Log in, the session cookie is set on success",
+			security: [],
+			requestBody: {
+				required: true,
+				content: json({
+					type: "object",
+					required: [uniqueIdentifierField, secretField],
+					properties: {
+						[uniqueIdentifierField]: { type: "string" },
+						[secretField]: { type: "string", format: "password" },
+					},
+				}),
+			},
+			responses: {
+				200: { description: "Logged in, or already logged in." },
+				400: errorResponse("Missing credentials or wrong password."),
+				404: errorResponse("No user has this identifier."),
+			},
+		},
+	};
+	paths["/auth/logout"] = {
+		post: {
+			tags: ["auth"],
+			summary: "Log out",
+			responses: { 200: { description: "Logged out." }, 401: errorResponses[401] },
+		},
+	};
+	paths["/collections"] = {
+		get: {
+			tags: ["meta"],
+			summary: "The collections with their fields and generated models",
+			responses: {
+				200: {
+					description: "Collection metadata.",
+					content: json({ type: "array", items: { type: "object" } }),
+				},
+				401: errorResponses[401],
+			},
+		},
+	};
+
+	if (batch !== false) {
+		const slugs = Object.entries(collections).map(([k, v]) => v.slug || k);
+
+		paths["/batch"] = {
+			post: {
+				tags: ["batch"],
+				summary: "Run operations on several collections in one transaction",
+				description:
+					"Later operations can use the results of earlier ones, e.g. { $ref: 'album.after.id' }.",
+				requestBody: {
+					required: true,
+					content: json({
+						type: "object",
+						required: ["operations"],
+						properties: {
+							operations: {
+								type: "array",
+								items: {
+									type: "object",
+									required: ["collection", "method"],
+									properties: {
+										ref: { type: "string" },
+										collection: { type: "string", enum: slugs },
+										method: {
+											type: "string",
+											enum: ["GET", "POST", "PUT", "PATCH", "DELETE"],
+										},
+										id: { oneOf: [{ type: "string" }, { type: "integer" }] },
+										query: { type: "object" },
+										body: { type: "object" },
+									},
+								},
+							},
+						},
+					}),
+				},
+				responses: {
+					200: {
+						description: "The result of every operation, in order.",
+						content: json({
+							type: "object",
+							properties: {
+								success: { type: "boolean", enum: [true] },
+								results: { type: "array", items: { type: "object" } },
+							},
+						}),
+					},
+					...errorResponses,
+				},
+			},
+		};
+	}
+
+	if (healthCheck !== false) {
+		paths[healthCheck?.path || "/health-check"] = {
+			get: {
+				tags: ["meta"],
+				summary: "Health check",
+				security: [],
+				responses: {
+					200: { description: "The app is up.", content: json({ type: "object" }) },
+				},
+			},
+		};
+	}
+
+	return {
+		openapi: "3.0.3",
+		info: {
+			title: "SystemPanda REST API",
+			version: "1.0.0",
+			description: "Generated from the collections config.",
+		},
+		servers: [{ url: routes.api }],
+		security: [{ session: [] }],
+		tags: [
+			...collectionKeys.map(name => ({ name })),
+			{ name: "auth" },
+			{ name: "batch" },
+			{ name: "meta" },
+		],
+		paths,
+		components: {
+			schemas,
+			securitySchemes: {
+				session: { type: "apiKey", in: "cookie", name: SESSION.COOKIE_NAME },
+			},
+		},
+	};
+}
+
+export { openApiDocument };
@@ -0,0 +1,2 @@
+export * from "./subscriptionStream.js";
+export * from "./subscriptionSocket.js";
@@ -0,0 +1,150 @@
+import { Express, NextFunction, Request, Response } from "express";
+import { IncomingMessage, Server, ServerResponse } from "node:http";
+import { Duplex } from "node:stream";
+import { Socket } from "node:net";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+	ChangeEvent,
+	Context,
+	SystemPandaError,
+	logfile,
+	logger,
+	normalizeError,
+	routes,
+	toQueryParams,
+} from "../../util/index.js";
+import { subscribe } from "../../realtime/index.js";
+import { collectionKeyBySlug } from "../../operations/index.js";
+
+type SubscriptionMessage = {
+	type?: unknown;
+	id?: unknown;
+	collection?: unknown;
+	filter?: unknown;
+	where?: unknown;
+	events?: ChangeEvent[];
+};
+
+const heartbeatInterval = 30_000;
+const webSocketServer = new WebSocketServer({ noServer: true });
+const upgrades = new WeakMap<IncomingMessage, { socket: Duplex; head: Buffer }>();
+
+const badRequest = (message: string) =>
+	new SystemPandaError({ level: "informative", status: 400, message });
+
+/*
+	one socket holds any number of subscriptions, each with an ID chosen by the client:
+	{ type: "subscribe", id, collection: slug, filter, where, events } and { type: "unsubscribe", id }
+*/
+function onConnection(ws: WebSocket, ctx: Context) {
+	const subscriptions = new Map<unknown, () => void>();
+	let isAlive = true;
+
+	const send = (message: Record<string, unknown>) => {
+		if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+	};
+
+	const heartbeat = setInterval(() => {
+		if (!isAlive) return ws.terminate();
+
+		isAlive = false;
+		ws.ping();
+	}, heartbeatInterval);
+
+	ws.on("pong", () => (isAlive = true));
+
+	ws.on("message", async raw => {
+		let message: SubscriptionMessage = {};
+
+		try {
+			try {
+				message = JSON.parse(String(raw));
+			} catch (_) {
+				throw badRequest("Messages must be JSON.");
+			}
+
+			const { type, id, collection, filter, where, events } = message;
+
+			if (typeof id !== "string" && typeof id !== "number") {
+				throw badRequest("Expected an 'id' for the subscription.");
+			}
+
+			if (type === "subscribe") {
+				if (subscriptions.has(id)) throw badRequest(`The subscription '${id}' exists.`);
+
+				const unsubscribe = await subscribe({
+					ctx,
+					cKey: collectionKeyBySlug(collection),
+					query: {
+						...(toQueryParams(filter || {}) as Record<string, unknown>),
+						...(where !== undefined && { where: JSON.stringify(where) }),
+					},
+					events,
+					listener: payload => send({ type: "change", id, payload }),
+				});
+
+				subscriptions.set(id, unsubscribe);
+				send({ type: "subscribed", id });
+			} else if (type === "unsubscribe") {
+				subscriptions.get(id)?.();
+				subscriptions.delete(id);
+				send({ type: "unsubscribed", id });
+			} else {
+				throw badRequest("The message 'type' must be either 'subscribe' or 'unsubscribe'.");
+			}
+		} catch (err: unknown) {
+			send({ type: "error", id: message.id, ...normalizeError(err) });
+
+			if (!(err instanceof SystemPandaError)) await logger(logfile, err as Error);
+		}
+	});
+
+	ws.on("close", () => {
+		clearInterval(heartbeat);
+		subscriptions.forEach(unsubscribe => unsubscribe());
+	});
+}
+
+/*
+	upgrade requests go through the app like any other request,
+	so the session, access and authentication middlewares apply to them,
+	a response from any of them is written to the socket, which is then closed
+*/
+function handleUpgrades(server: Server, app: Express) {
+	server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+		if (req.url?.split("?")[0] !== `${routes.api}/subscriptions`) return socket.destroy();
+
+		const res = new ServerResponse(req);
+
+		res.assignSocket(socket as Socket);
+		res.on("finish", () => socket.destroy());
+		upgrades.set(req, { socket, head });
+
+		app(req as Request, res as Response);
+	});
+}
+
+function subscriptionSocket() {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const upgrade = upgrades.get(req);
+
+		if (!upgrade) {
+			return next(
+				new SystemPandaError({
+					level: "informative",
+					status: 426,
+					message: "Subscriptions are made over a WebSocket.",
+				})
+			);
+		}
+
+		upgrades.delete(req);
+		res.detachSocket(upgrade.socket as Socket);
+
+		webSocketServer.handleUpgrade(req, upgrade.socket, upgrade.head, ws =>
+			onConnection(ws, req.ctx)
+		);
+	};
+}
+
+export { handleUpgrades, subscriptionSocket };
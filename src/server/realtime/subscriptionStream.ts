@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response } from "express";
+import { ChangeEvent } from "../../util/index.js";
+import { subscribe } from "../../realtime/index.js";
+
+const heartbeatInterval = 30_000;
+
+/*
+	Server-Sent Events of a collection's changes, filtered by the query string like a GET,
+	e.g. "?events=create,update&price[gte]=10", as long as the connection is open
+*/
+function subscriptionStream(cKey: string) {
+	return async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			const { events, ...query } = req.query;
+			const unsubscribe = await subscribe({
+				ctx: req.ctx,
+				cKey,
+				query,
+				...(events !== undefined && { events: String(events).split(",") as ChangeEvent[] }),
+				listener: payload => {
+					if (res.headersSent) {
+						res.write(`event: ${payload.event}\ndata: ${JSON.stringify(payload)}\n\n`);
+					}
+				},
+			});
+
+			// "no-transform" keeps the compression middleware from buffering the stream
+			res.writeHead(200, {
+				"content-type": "text/event-stream",
+				"cache-control": "no-cache, no-transform",
+				connection: "keep-alive",
+			});
+			res.write(": subscribed\n\n");
+
+			const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), heartbeatInterval);
+
+			req.on("close", () => {
+				clearInterval(heartbeat);
+				unsubscribe();
+			});
+		} catch (err: unknown) {
+			return next(err);
+		}
+	};
+}
+
+export { subscriptionStream };
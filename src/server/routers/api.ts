@@ -1,18 +1,23 @@
 import express from "express";
 import { ifAuthenticated } from "../middlewares/index.js";
-import { Context, Webhook, getConfigStore, getDataStore } from "../../util/index.js";
-import { collection } from "../controllers/index.js";
+import { Webhook, getConfigStore, getDataStore, routes } from "../../util/index.js";
+import { batch, collection, collectionAggregate, collectionItem } from "../controllers/index.js";
 import { authRouter } from "./auth.js";
 import { pluginsRouter } from "./plugins.js";
 import { webhook } from "../../webhooks/index.js";
+import { serializeValidation } from "../../collections/index.js";
+import { docsPage, openApiDocument } from "../openapi/index.js";
+import { graphqlHandler } from "../graphql/index.js";
+import { subscriptionSocket, subscriptionStream } from "../realtime/index.js";
 const apiRouter = express.Router();
 
-function apiHandler(ctx: Context, globalWebhooks: Webhook[]) {
+function apiHandler(globalWebhooks: Webhook[]) {
 	const {
-		settings: { healthCheck },
+		settings: { healthCheck, openApi, graphql, realtime, batch: batchSettings },
 		content: { collections },
 	} = getConfigStore();
-	const { prisma, models } = getDataStore();
+	// the schema is read on startup, before the routes are mounted
+	const { schema = { models: {}, enums: {}, types: {} } } = getDataStore();
 
 	apiRouter
 		// ...
@@ -30,28 +35,65 @@ function apiHandler(ctx: Context, globalWebhooks: Webhook[]) {
 			);
 		});
 
+	if (openApi !== false) {
+		const document = openApiDocument();
+		// the document tells every collection's fields and filters, like "/collections"
+		const access = openApi?.public ? [] : [ifAuthenticated];
+
+		apiRouter.get("/openapi.json", ...access, (_, res) => res.json(document));
+
+		if (openApi?.docsPage !== false) {
+			apiRouter.use(
+				"/docs",
+				...access,
+				docsPage(`${routes.api}/docs`, `${routes.api}/openapi.json`)
+			);
+		}
+	}
+
+	if (batchSettings !== false) apiRouter.post("/batch", ifAuthenticated, batch());
+	if (graphql) apiRouter.all("/graphql", ifAuthenticated, graphqlHandler());
+	if (realtime !== false && realtime?.webSocket !== false) {
+		apiRouter.get("/subscriptions", ifAuthenticated, subscriptionSocket());
+	}
+
 	apiRouter.get("/collections", ifAuthenticated, (_, res) =>
 		res.json(
 			Object.entries(collections).map(([k, v]) => ({
 				slug: v.slug || k,
-				fields: v.fields,
+				fields: Object.fromEntries(
+					Object.entries(v.fields).map(([fieldName, field]) => [
+						fieldName,
+						field.type !== "relation" && field.validation
+							? { ...field, validation: serializeValidation(field.validation) }
+							: field,
+					])
+				),
+				// field types, optionality, relations and attributes as generated
+				model: schema.models[k],
 			}))
 		)
 	);
 
 	for (const [cKey, cValue] of Object.entries(collections)) {
-		const { hooks, slug, webhooks } = cValue;
+		const { slug, webhooks } = cValue;
 		const slugOrKey = slug || cKey;
-		const query = prisma[cKey];
 		const mergedWebhooks = [...(globalWebhooks || []), ...(webhooks || [])];
 
 		mergedWebhooks?.forEach(obj => webhook(obj).init());
 
-		apiRouter.all(
-			`/collections/${slugOrKey}`,
+		apiRouter.all(`/collections/${slugOrKey}`, ifAuthenticated, collection(cKey));
+		// before the record routes, "aggregate" isn't an ID
+		apiRouter.get(
+			`/collections/${slugOrKey}/aggregate`,
 			ifAuthenticated,
-			collection(query, ctx, hooks, models || {}, mergedWebhooks, cKey, slugOrKey)
+			collectionAggregate(cKey)
 		);
+		apiRouter.all(`/collections/${slugOrKey}/:id`, ifAuthenticated, collectionItem(cKey));
+
+		if (realtime !== false && realtime?.sse !== false) {
+			apiRouter.get(`/subscriptions/${slugOrKey}`, ifAuthenticated, subscriptionStream(cKey));
+		}
 	}
 
 	return apiRouter;
@@ -4,22 +4,44 @@ class SystemPandaError extends Error {
 	message: string;
 	level: LogLevel;
 	status?: number | null;
+	/**
+	 * stable and machine-readable, e.g. "OUT_OF_STOCK",
+	 * defaults to the code of the status, e.g. "NOT_FOUND" for a 404
+	 */
+	code?: string;
+	/**
+	 * error messages per field
+	 */
+	errors?: Record<string, string[]>;
+	/**
+	 * anything else the client should know about the error, returned as is
+	 */
+	details?: Record<string, unknown>;
 
 	constructor({
 		message,
 		level,
 		status,
+		code,
+		errors,
+		details,
 	}: {
 		message: string;
-		level: LogLevel;
+		level?: LogLevel;
 		status?: number | null;
+		code?: string;
+		errors?: Record<string, string[]>;
+		details?: Record<string, unknown>;
 	}) {
 		super(message);
 
-		this.level = level;
+		this.level = level || (status && status < 500 ? "informative" : "error");
 		this.name = this.constructor.name;
 		this.status = status || null;
 		this.message = message;
+		this.code = code;
+		this.errors = errors;
+		this.details = details;
 		// Error.captureStackTrace(this, this.constructor);
 	}
 }
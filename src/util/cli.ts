@@ -1,11 +1,65 @@
 #!/usr/bin/env node
 import { execa } from "execa";
+import { writeFile } from "node:fs/promises";
 import { logfile, logger } from "./index.js";
+import { introspect } from "../database/introspect.js";
+import { formatConfigIssues } from "../collections/validateConfig.js";
+
+// "--out file" becomes { out: "file" }, "--json" becomes { json: true }
+function parseFlags(args: string[]) {
+	const flags: Record<string, string | true> = {};
+
+	for (let i = 0; i < args.length; i++) {
+		if (!args[i].startsWith("--")) continue;
+
+		const next = args[i + 1];
+
+		if (next !== undefined && !next.startsWith("--")) {
+			flags[args[i].slice(2)] = next;
+			i++;
+		} else {
+			flags[args[i].slice(2)] = true;
+		}
+	}
+
+	return flags;
+}
+
+/*
+	system-panda introspect [--json] [--out file] [--url URI],
+	prints the collections of an existing database or writes them to a file
+*/
+async function introspectCmd(args: string[]) {
+	const flags = parseFlags(args);
+	const URI = typeof flags.url === "string" ? flags.url : process.env.DATABASE_URL;
+
+	if (!URI) throw "Pass the database URI with --url or set DATABASE_URL.";
+
+	const { issues, source } = await introspect({ URI }, flags.json ? "json" : "ts");
+
+	if (typeof flags.out === "string") {
+		await writeFile(flags.out, source);
+		console.log(`🐼 Collections written to ${flags.out}.`);
+	} else {
+		process.stdout.write(source);
+	}
+
+	if (issues.length > 0) {
+		console.error(
+			`🐼 ${issues.length} thing(s) couldn't be represented exactly:\n` +
+				formatConfigIssues(issues)
+		);
+	}
+}
+
+const internalCmds: Record<string, (args: string[]) => Promise<void>> = {
+	introspect: introspectCmd,
+};
 
 (async () => {
 	try {
 		const cmds: { int: string[]; ext: string[] } = {
-			int: [],
+			int: Object.keys(internalCmds),
 			ext: ["prisma"],
 		};
 		const [bin, ...rest] = process.argv.slice(2);
@@ -17,7 +71,7 @@ import { logfile, logger } from "./index.js";
 		if (cmds.ext.includes(bin)) {
 			await execa(bin, rest, options);
 		} else if (cmds.int.includes(bin)) {
-			// internal scripts for later
+			await internalCmds[bin](rest);
 		} else {
 			throw "Command not found.";
 		}
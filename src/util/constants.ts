@@ -24,12 +24,42 @@ const methodMapping = {
 	POST: "create",
 	GET: "read",
 	PUT: "update",
+	PATCH: "update",
 	DELETE: "delete",
 } as const;
 const SESSION = {
 	COOKIE_NAME: `${cmsNamePrefix}-sid`,
 	MAX_AGE: 60 * 60 * 24 * 30 * 1000,
 };
+// the role of the initial user, always one of the roles' enum values
+const ADMIN_ROLE = "admin";
+const PAGINATION = {
+	DEFAULT_TAKE: 20,
+	MAX_TAKE: 100,
+};
+const POPULATE = {
+	MAX_DEPTH: 2,
+};
+const BATCH = {
+	MAX_OPERATIONS: 50,
+};
+// the code of an error that isn't given one, by its status
+const ERROR_CODES: Record<number, string> = {
+	400: "BAD_REQUEST",
+	401: "UNAUTHENTICATED",
+	403: "FORBIDDEN",
+	404: "NOT_FOUND",
+	405: "METHOD_NOT_ALLOWED",
+	409: "CONFLICT",
+	413: "PAYLOAD_TOO_LARGE",
+	422: "VALIDATION_FAILED",
+	426: "UPGRADE_REQUIRED",
+	500: "INTERNAL_ERROR",
+};
+// providers with native scalar lists, the others store them as Json
+const SCALAR_LIST_PROVIDERS = ["postgresql", "cockroachdb", "mongodb"];
+// providers without Json either, they store lists as JSON text in a String field
+const TEXT_LIST_PROVIDERS = ["sqlite", "sqlserver"];
 const routes = {
 	static: `/${cmsNamePrefix}-static`,
 	api: `/${cmsNamePrefix}-api`,
@@ -46,6 +76,13 @@ export {
 	logfile,
 	packageProjectDir,
 	SESSION,
+	ADMIN_ROLE,
+	PAGINATION,
+	POPULATE,
+	BATCH,
+	ERROR_CODES,
+	SCALAR_LIST_PROVIDERS,
+	TEXT_LIST_PROVIDERS,
 	staticDir,
 	internalTablesKeys,
 };
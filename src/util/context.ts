@@ -0,0 +1,24 @@
+import { Request, Response } from "express";
+import { BaseContext, Context } from "./types.js";
+
+/*
+	every request gets its own context so that hooks and plugins
+	of concurrent requests never see each other's session or hook state,
+	only customVars.app is shared between them
+*/
+const createContext = (baseCtx: BaseContext, req: Request, res: Response): Context => ({
+	prisma: baseCtx.prisma,
+	collections: baseCtx.collections,
+	express: { req, res },
+	sessionData: undefined,
+	bools: {},
+	util: {
+		currentHook: "beforeOperation",
+	},
+	customVars: {
+		app: baseCtx.customVars.app,
+		request: {},
+	},
+});
+
+export { createContext };
@@ -1,10 +1,42 @@
-import { getDataStore } from "./stores.js";
-import { Collection, Context, HookOperationArgs, InputData } from "./types.js";
+import { getConfigStore, getDataStore } from "./stores.js";
+import { SystemPandaError } from "./SystemPandaError.js";
+import { Collection, Context, ExistingData, HookOperationArgs, RequestBody } from "./types.js";
+
+const runHooks = async (
+	ctx: Context,
+	hooks: Collection["hooks"],
+	inputData: RequestBody,
+	operationArgs: HookOperationArgs
+) => {
+	for (const op of (hooks || {})[ctx.util.currentHook] || []) {
+		const frozenOperationArgs = {
+			...Object.freeze(Object.assign({}, operationArgs)),
+			inputData: inputData.data,
+			ctx: { ...ctx, customVars: ctx.customVars },
+		};
+
+		const hookReturn = await op(frozenOperationArgs);
+
+		/*
+			ACCESS CONTROL
+		*/
+		const beforeOpAndDenied =
+			ctx.util.currentHook === "beforeOperation" && hookReturn === false;
+
+		if (beforeOpAndDenied) {
+			throw new SystemPandaError({
+				level: "informative",
+				status: 403,
+				message: "Access denied.",
+			});
+		}
+	}
+};
 
 const handleHooksPlugins = async (
 	ctx: Context,
 	hooks: Collection["hooks"],
-	inputData: InputData,
+	inputData: RequestBody,
 	operationArgs: HookOperationArgs
 ) => {
 	return async () => {
@@ -12,26 +44,75 @@ const handleHooksPlugins = async (
 			obj.sourceCode(ctx);
 		}
 
-		for (const op of (hooks || {})[ctx.util.currentHook] || []) {
-			const frozenOperationArgs = {
-				...Object.freeze(Object.assign({}, operationArgs)),
-				inputData: inputData.data,
-				ctx: { ...ctx, customVars: ctx.customVars },
-			};
+		await runHooks(ctx, hooks, inputData, operationArgs);
+	};
+};
 
-			const hookReturn = await op(frozenOperationArgs);
+/*
+	records of related collections are read or written on behalf of the caller,
+	so the access control of those collections has to allow the operation
+	just like it would for a request to them
+*/
+const authorizeRelated = async (
+	ctx: Context,
+	target: Collection,
+	operation: "create" | "read",
+	relationKey: string
+) => {
+	ctx.util.currentHook = "beforeOperation";
 
-			/*
-				ACCESS CONTROL
-			*/
-			const beforeOpAndDenied =
-				ctx.util.currentHook === "beforeOperation" && hookReturn === false;
+	try {
+		await runHooks(ctx, target.hooks, {}, { ctx, operation, existingData: null });
+	} catch (err: unknown) {
+		if (err instanceof SystemPandaError && err.status === 403) {
+			throw new SystemPandaError({
+				level: "informative",
+				status: 403,
+				message: `Access denied to the relation '${relationKey}'.`,
+			});
+		}
 
-			if (beforeOpAndDenied) {
-				throw "Access denied.";
-			}
+		throw err;
+	}
+};
+
+const authorizeIncludes = async (
+	ctx: Context,
+	collection: Collection,
+	include: Record<string, unknown> = {}
+) => {
+	const { collections } = getConfigStore().content;
+
+	for (const [key, value] of Object.entries(include)) {
+		const field = collection.fields[key];
+		if (field?.type !== "relation") continue;
+
+		const target = collections[field.ref.split(".")[0]];
+
+		await authorizeRelated(ctx, target, "read", key);
+
+		if (typeof value === "object" && value !== null) {
+			await authorizeIncludes(ctx, target, (value as { include?: typeof include }).include);
 		}
-	};
+	}
+};
+
+/*
+	records that are pushed to the caller rather than requested, e.g. changes sent to a subscriber,
+	are only sent if the collection's access control allows reading them
+*/
+const isReadAllowed = async (ctx: Context, collection: Collection, existingData: ExistingData) => {
+	ctx.util.currentHook = "beforeOperation";
+
+	try {
+		await runHooks(ctx, collection.hooks, {}, { ctx, operation: "read", existingData });
+
+		return true;
+	} catch (err: unknown) {
+		if (err instanceof SystemPandaError && err.status === 403) return false;
+
+		throw err;
+	}
 };
 
-export { handleHooksPlugins };
+export { handleHooksPlugins, authorizeIncludes, isReadAllowed };
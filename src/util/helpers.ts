@@ -1,6 +1,11 @@
 import { access, constants, stat } from "fs/promises";
 import { Stats } from "fs";
+import { SystemPandaError } from "./SystemPandaError.js";
+import { SCALAR_LIST_PROVIDERS, TEXT_LIST_PROVIDERS } from "./constants.js";
 import {
+	Collection,
+	Database,
+	ListStorage,
 	PrismaClientInitializationError,
 	PrismaClientKnownRequestError,
 	PrismaClientRustPanicError,
@@ -28,7 +33,7 @@ const selectOnQuery = (obj: object, keys: "*" | string[]) =>
 		)
 	);
 
-const nullIfEmptyArrOrObj = (x: unknown[] | Record<string, unknown>) =>
+const nullIfEmptyArrOrObj = <T extends unknown[] | Record<string, unknown>>(x: T) =>
 	(Array.isArray(x) && x.length > 0) || Object.keys(x).length > 0 ? x : null;
 
 const isPrismaErr = (err: unknown) =>
@@ -40,6 +45,9 @@ const isPrismaErr = (err: unknown) =>
 		PrismaClientValidationError,
 	].some(x => err?.constructor.name === x.name);
 
+const isPrismaErrCode = (err: unknown, code: string) =>
+	isPrismaErr(err) && (err as PrismaClientKnownRequestError).code === code;
+
 function filterObjByKeys<T extends object>(obj: T, keys: (keyof T)[]) {
 	const filteredObj: Partial<T> = {};
 
@@ -52,11 +60,97 @@ function filterObjByKeys<T extends object>(obj: T, keys: (keyof T)[]) {
 	return filteredObj;
 }
 
+/*
+	route params are always strings,
+	autoincrement IDs have to be numbers for Prisma
+*/
+const parseRecordId = (id: Collection["id"], rawId: string) => {
+	if (id?.type && id.type !== "autoincrement") return rawId;
+
+	if (!/^\d+$/.test(rawId)) {
+		throw new SystemPandaError({
+			level: "informative",
+			status: 400,
+			message: `Invalid ID: '${rawId}', expected an integer.`,
+		});
+	}
+
+	return Number(rawId);
+};
+
+/*
+	cursors are handed out as opaque strings,
+	so clients don't depend on which fields make them up
+*/
+const encodeCursor = (cursor: Record<string, unknown>) =>
+	Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (cursor: string, keys: string[]) => {
+	try {
+		const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+		const isValid =
+			decoded &&
+			typeof decoded === "object" &&
+			keys.every(key => decoded[key] !== undefined && decoded[key] !== null);
+
+		if (isValid) return filterObjByKeys(decoded, keys);
+	} catch (_) {
+		// handled below
+	}
+
+	throw new SystemPandaError({
+		level: "informative",
+		status: 400,
+		message: "Invalid cursor.",
+	});
+};
+
+// Prisma providers of the connection string schemes that aren't named after them
+const providerByScheme: Record<string, string> = {
+	file: "sqlite",
+	postgres: "postgresql",
+	"mongodb+srv": "mongodb",
+};
+
+// "postgresql://..." is "postgresql", "file:./dev.db" is "sqlite"
+const dbProvider = (db: Database) => {
+	const scheme = db.URI?.split(":")[0];
+
+	return providerByScheme[scheme] || scheme;
+};
+
+const hasNativeScalarLists = (db: Database) => SCALAR_LIST_PROVIDERS.includes(dbProvider(db));
+
+function listStorage(db: Database): ListStorage {
+	if (hasNativeScalarLists(db)) return "native";
+	if (TEXT_LIST_PROVIDERS.includes(dbProvider(db))) return "text";
+
+	return "json";
+}
+
+// filters given as an object, as the query parameters mapQuery reads, e.g. { price: { gte: "10" } }
+function toQueryParams(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(String).join(",");
+	if (typeof value === "object" && value !== null) {
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toQueryParams(v)]));
+	}
+
+	return String(value);
+}
+
 export {
 	writeOrAppend,
 	pathExists,
 	selectOnQuery,
 	nullIfEmptyArrOrObj,
 	isPrismaErr,
+	isPrismaErrCode,
 	filterObjByKeys,
+	parseRecordId,
+	encodeCursor,
+	decodeCursor,
+	dbProvider,
+	hasNativeScalarLists,
+	listStorage,
+	toQueryParams,
 };
@@ -5,3 +5,5 @@ export * from "./constants.js";
 export * from "./types.js";
 export * from "./stores.js";
 export * from "./handleHooksPlugins.js";
+export * from "./normalizeError.js";
+export * from "./context.js";
@@ -0,0 +1,132 @@
+import { getDataStore } from "./stores.js";
+import { SystemPandaError } from "./SystemPandaError.js";
+import { ERROR_CODES } from "./constants.js";
+import { isPrismaErr } from "./helpers.js";
+import {
+	ErrorResponse,
+	HttpError,
+	PrismaClientKnownRequestError,
+	PrismaClientValidationError,
+} from "./types.js";
+
+const internalMessage = "Internal Server Error.";
+
+const isProduction = () => process.env.NODE_ENV === "production";
+
+const codeOf = (status: number) =>
+	ERROR_CODES[status] || (status < 500 ? ERROR_CODES[400] : ERROR_CODES[500]);
+
+// Prisma's own messages name the tables and columns, they're never sent as they are
+const prismaErrors: Record<string, Omit<ErrorResponse, "details">> = {
+	P2000: { status: 400, code: "VALUE_TOO_LONG", message: "A value is too long for its field." },
+	P2003: {
+		status: 409,
+		code: "FOREIGN_KEY_CONSTRAINT_FAILED",
+		message: "A related record doesn't exist, or still refers to this one.",
+	},
+	P2011: { status: 400, code: "NULL_CONSTRAINT_FAILED", message: "A required value is missing." },
+	P2025: { status: 404, code: "NOT_FOUND", message: "The record doesn't exist." },
+};
+
+/*
+	depending on the database, Prisma reports unique violations
+	either with the fields or with the name of the constraint
+*/
+function uniqueViolationFields(target: unknown) {
+	if (Array.isArray(target)) return target.map(String);
+
+	for (const [cKey, collection] of Object.entries(getDataStore().normalizedCollections.visible)) {
+		for (const unique of collection.uniques || []) {
+			const fields = unique.fields.map(x => (typeof x === "string" ? x : x.name));
+			const defaultName = `${cKey}_${fields.join("_")}_key`;
+
+			if (target === unique.name || target === defaultName) return fields;
+		}
+	}
+
+	return [String(target)];
+}
+
+function prismaError(err: unknown): ErrorResponse {
+	const { code, meta, message } = err as PrismaClientKnownRequestError;
+	const debug = isProduction() ? undefined : { prisma: { code, message } };
+
+	if (code === "P2002") {
+		const fields = uniqueViolationFields(meta?.target);
+
+		return {
+			status: 409,
+			code: "UNIQUE_CONSTRAINT_FAILED",
+			message: `Unique constraint failed on the fields: ('${fields.join("', '")}').`,
+			details: { fields, ...debug },
+		};
+	}
+
+	if (code && prismaErrors[code]) return { ...prismaErrors[code], details: debug };
+
+	if ((err as Error).constructor.name === PrismaClientValidationError.name) {
+		return {
+			status: 400,
+			code: "INVALID_QUERY",
+			message: "The query doesn't match the schema.",
+			details: debug,
+		};
+	}
+
+	return {
+		status: 500,
+		code: "DATABASE_ERROR",
+		message: "The database couldn't process the request.",
+		details: debug,
+	};
+}
+
+const clientStatus = (err: unknown) => {
+	const { status, statusCode } = (err || {}) as HttpError;
+	const errStatus = status ?? statusCode;
+
+	return Number.isInteger(errStatus) && Number(errStatus) >= 400 && Number(errStatus) < 500
+		? errStatus
+		: undefined;
+};
+
+/*
+	what a client is told about any error thrown while handling a request,
+	other errors keep the 4xx status they carry, e.g. body-parser's for a malformed (400)
+	or too large (413) body, the others are unexpected,
+	their messages are only told outside of production, unless they're marked to be exposed
+*/
+function normalizeError(err: unknown, status = 500): ErrorResponse {
+	if (err instanceof SystemPandaError) {
+		const errStatus = err.status || status;
+		const details = { ...err.details, ...(err.errors && { errors: err.errors }) };
+
+		return {
+			status: errStatus,
+			code: err.code || codeOf(errStatus),
+			message: err.message,
+			...(Object.keys(details).length > 0 && { details }),
+		};
+	}
+
+	if (isPrismaErr(err)) return prismaError(err);
+
+	const { expose } = (err || {}) as HttpError;
+	const errStatus = clientStatus(err) || status;
+	const message = err instanceof Error ? err.message : String(err);
+	const isHidden = errStatus >= 500 && isProduction() && expose !== true;
+
+	return {
+		status: errStatus,
+		code: codeOf(errStatus),
+		message: isHidden ? internalMessage : message,
+	};
+}
+
+// the body of every error response
+const errorBody = ({ code, message, details }: Omit<ErrorResponse, "status">) => ({
+	success: false,
+	error: { code, message, ...(details && { details }) },
+});
+
+export { normalizeError, errorBody };
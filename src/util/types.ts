@@ -64,6 +64,18 @@ type EventTriggerPayload = {
 		slug: string;
 	};
 };
+type ChangeEvent = Exclude<EventTriggerPayload["event"], "read">;
+/**
+ * query: filters as the REST API takes them, and "where"
+ * listener: called with every change the subscriber may read
+ */
+type SubscriptionRequest = {
+	ctx: Context;
+	cKey: string;
+	query?: Record<string, unknown>;
+	events?: ChangeEvent[];
+	listener: (payload: EventTriggerPayload) => void;
+};
 type WebhookFunc = (webhook: Webhook) => {
 	init: () => void;
 	trigger: (obj: EventTriggerPayload) => void;
@@ -73,6 +85,27 @@ type WebhookFunc = (webhook: Webhook) => {
 /* ********** CONTEXT ********** */
 type CurrentHook = keyof CRUDHooks;
 
+type CustomVars = {
+	/**
+	 * shared by every request for as long as the app is running
+	 */
+	app: Record<string, unknown>;
+	/**
+	 * created empty for every request, discarded when it ends
+	 */
+	request: Record<string, unknown>;
+};
+
+/**
+ * data that lives for the whole lifetime of the app,
+ * every request context is created from it
+ */
+type BaseContext = {
+	prisma: PrismaClient;
+	collections: Collections;
+	customVars: Pick<CustomVars, "app">;
+};
+
 type Context = {
 	prisma: PrismaClient;
 	collections: Collections;
@@ -85,19 +118,58 @@ type Context = {
 	util: {
 		currentHook: CurrentHook;
 	};
-	customVars: Record<string, unknown>;
+	customVars: CustomVars;
 };
 /* ******************** */
 
 /* ********** HOOKS ********** */
-type ExistingData = any;
-type InputData = any;
+/**
+ * the record, create input and update input types of a collection,
+ * generated into the file of settings.typesPath, e.g. AlbumTypes
+ */
+type CollectionTypes = {
+	record: unknown;
+	create: unknown;
+	update: unknown;
+};
+/**
+ * the types of collections without generated types,
+ * any keeps their hooks typed as before and lets Collections hold typed collections too
+ */
+type AnyCollectionTypes = Record<keyof CollectionTypes, any>;
+/**
+ * a record, the records of a bulk operation, or null on creates
+ */
+type ExistingData<T extends CollectionTypes = AnyCollectionTypes> =
+	| T["record"]
+	| T["record"][]
+	| null;
+/**
+ * the "data" of the request body, a list on bulk creates
+ */
+type InputData<T extends CollectionTypes = AnyCollectionTypes> =
+	| T["create"]
+	| T["create"][]
+	| T["update"];
+/**
+ * the fields of a record as the operations handle them, before and after the hooks
+ */
+type RecordData = Record<string, unknown>;
+/**
+ * the body of a write to a collection, "data" is what the hooks get as inputData
+ */
+type RequestBody = {
+	data?: RecordData | RecordData[];
+	where?: Record<string, unknown>;
+	skipDuplicates?: boolean;
+	all?: boolean;
+};
 
-type CRUDHooks = {
-	beforeOperation?: BeforeOperation[];
-	validateInput?: ModifyValidateInputOperation[];
-	modifyInput?: ModifyValidateInputOperation[];
-	afterOperation?: AfterOperation[];
+type CRUDHooks<T extends CollectionTypes = AnyCollectionTypes> = {
+	beforeOperation?: BeforeOperation<T>[];
+	validateInput?: ModifyValidateInputOperation<T>[];
+	modifyInput?: ModifyValidateInputOperation<T>[];
+	afterOperation?: AfterOperation<T>[];
 };
 
 type HookOperationArgs = {
@@ -106,34 +178,46 @@ type HookOperationArgs = {
 			req: ExpressRequest;
 			res: ExpressResponse;
 		};
-		customVars: Record<string, unknown>;
+		customVars: CustomVars;
 	};
 	existingData?: ExistingData;
 	inputData?: InputData;
 } & CRUD_Operation;
-type ReadonlyHookOperationArgs = {
+type ReadonlyHookOperationArgs<T extends CollectionTypes = AnyCollectionTypes> = {
 	ctx: DeepReadonly<Omit<Context, "express" | "customVars">> & {
 		express: {
 			req: ExpressRequest;
 			res: ExpressResponse;
 		};
-		customVars: Record<string, unknown>;
+		customVars: CustomVars;
 	};
 } & {
-	readonly existingData?: ExistingData;
-	inputData?: InputData;
+	readonly existingData?: ExistingData<T>;
+	inputData?: InputData<T>;
 } & CRUD_Operation;
 
-type Hook<T> = ({ ctx, operation, existingData, inputData }: ReadonlyHookOperationArgs) => T;
-
-type BeforeOperation = Hook<boolean | Promise<boolean>>;
-type ModifyValidateInputOperation = Hook<InputData | Promise<InputData>>;
-type AfterOperation = Hook<void | Promise<void>>;
+type Hook<R, T extends CollectionTypes = AnyCollectionTypes> = ({
+	ctx,
+	operation,
+	isPartialUpdate,
+	existingData,
+	inputData,
+}: ReadonlyHookOperationArgs<T>) => R;
+
+type BeforeOperation<T extends CollectionTypes = AnyCollectionTypes> = Hook<
+	boolean | Promise<boolean>,
+	T
+>;
+type ModifyValidateInputOperation<T extends CollectionTypes = AnyCollectionTypes> = Hook<
+	InputData<T> | undefined | Promise<InputData<T> | undefined>,
+	T
+>;
+type AfterOperation<T extends CollectionTypes = AnyCollectionTypes> = Hook<void | Promise<void>, T>;
 
 /* ********** COLLECTIONS ********** */
 type Collections = Record<string, Collection>;
 
-type Collection = {
+type Collection<T extends CollectionTypes = AnyCollectionTypes> = {
 	id?: {
 		name?: string;
 		type: "autoincrement" | "uuid" | "cuid";
@@ -142,8 +226,50 @@ type Collection = {
 		[key: string]: Field;
 	};
 	slug?: string;
-	hooks?: CRUDHooks;
+	hooks?: CRUDHooks<T>;
 	webhooks?: Webhook[];
+	/**
+	 * number of records returned by GET when "take" is not specified,
+	 * and the most records one request can take
+	 * default: { defaultTake: 20, maxTake: 100 }
+	 */
+	pagination?: {
+		defaultTake?: number;
+		maxTake?: number;
+	};
+	/**
+	 * run every write with its hooks in one interactive transaction,
+	 * hooks get the transaction's client as ctx.prisma, and it's all rolled back if one throws,
+	 * optionally with Prisma's transaction options
+	 * default: false
+	 */
+	transactional?: boolean | { maxWait?: number; timeout?: number };
+	/**
+	 * unique constraints over multiple fields
+	 */
+	uniques?: CompoundIndex[];
+	/**
+	 * indexes over multiple fields
+	 */
+	indexes?: CompoundIndex[];
+	/**
+	 * how many relations deep "include" can go,
+	 * e.g. "relation_album.relation_song" is 2
+	 * default: { maxDepth: 2 }
+	 */
+	populate?: {
+		maxDepth?: number;
+	};
+};
+
+/**
+ * fields by name (single relations by their foreign key),
+ * optionally with a sort order
+ * name: name of the constraint/index in the database
+ */
+type CompoundIndex = {
+	fields: (string | { name: string; sort: "Asc" | "Desc" })[];
+	name?: string;
 };
 
 type CommonFieldProps = {
@@ -151,13 +277,87 @@ type CommonFieldProps = {
 	required?: boolean;
 	index?: boolean;
 	map?: string;
+	/**
+	 * enforced on creates and updates,
+	 * failures are answered with a 422 and a per-field error map
+	 */
+	validation?: FieldValidation;
+	/**
+	 * for String, number, Boolean and DateTime fields,
+	 * a scalar list (e.g. String[]) where the database provider supports it,
+	 * a Json array otherwise
+	 */
+	list?: boolean;
+};
+type FieldValidation = {
+	/**
+	 * for strings
+	 */
+	minLength?: number;
+	maxLength?: number;
+	/**
+	 * for numbers
+	 */
+	min?: number;
+	max?: number;
+	/**
+	 * for strings, RegExp or its source
+	 */
+	pattern?: RegExp | string;
+	format?: "email" | "url";
+	/**
+	 * allowed values
+	 */
+	oneOf?: (string | number | boolean)[];
+	/**
+	 * return true if the value is valid, or an error message,
+	 * list fields are validated as a whole, the other rules apply to each item
+	 */
+	validate?: (value: unknown, data: InputData) => true | string | Promise<true | string>;
 };
 type Field = RelationField | (OtherFields & CommonFieldProps);
-type OtherFields = StringFields | NumField | BoolField | DateTimeField;
+type OtherFields = StringFields | NumField | BoolField | DateTimeField | EnumField;
 type RelationField = {
 	type: "relation";
 	ref: string;
 	many: boolean;
+	/**
+	 * required on both sides when two collections are related more than once,
+	 * e.g. "album_author" on "album.author" and "user.authored_albums"
+	 */
+	name?: string;
+	/**
+	 * what happens to the records holding the relation
+	 * when the related record is deleted/its ID is updated,
+	 * not available on many-to-many relations
+	 */
+	onDelete?: ReferentialAction;
+	onUpdate?: ReferentialAction;
+};
+type ReferentialAction = "Cascade" | "SetNull" | "Restrict";
+/**
+ * a problem with the config, found before the database is touched
+ * path: e.g. "content.collections.album.fields.year.subtype"
+ */
+type ConfigIssue = {
+	path: string;
+	message: string;
+	fix: string;
+};
+/**
+ * a relation field paired with the field on the other side of the relation
+ */
+type ResolvedRelation = {
+	kind: "oneToOne" | "oneToMany" | "manyToMany";
+	target: string;
+	backField: string;
+	name?: string;
+	/**
+	 * the side that stores the foreign key
+	 */
+	holdsForeignKey: boolean;
+	onDelete?: ReferentialAction;
+	onUpdate?: ReferentialAction;
 };
 type StringFields = {
 	type: "String" | "Json";
@@ -172,6 +372,16 @@ type BoolField = {
 	type: "Boolean";
 	defaultValue?: boolean;
 };
+type EnumField = {
+	type: "enum";
+	values: string[];
+	defaultValue?: string;
+	/**
+	 * name of the Prisma enum
+	 * default: "[collection]_[field]"
+	 */
+	enumName?: string;
+};
 type DateTimeField = {
 	type: "DateTime";
 	defaultValue?: { kind: "now" | "updatedAt" } | string;
@@ -209,14 +419,41 @@ type morganOptions = {
 	options?: morgan.Options<ExpressRequest, ExpressResponse>;
 };
 /* ******************** */
+type MigrationMode = "dev" | "deploy" | "push" | "none";
+
+type Migrations = {
+	/**
+	 * how the generated schema is applied to the database on boot,
+	 * "dev" runs "prisma migrate dev", "deploy" only applies the committed migrations,
+	 * "push" runs "prisma db push" and "none" leaves the database alone,
+	 * defaults to "deploy" when NODE_ENV is "production" and to "dev" otherwise
+	 */
+	mode?: MigrationMode;
+	/**
+	 * prints the schema diff and the SQL that would be run, then stops without applying anything
+	 */
+	dryRun?: boolean;
+};
+
 type Database = {
 	URI: string;
+	migrations?: Migrations;
 } & Omit<PrismaClientOptions, "datasources" | "__internal">;
 
-type ExtendServer = (app: Express, ctx: Context) => void;
+/**
+ * ctx is the app-lifetime context, route handlers
+ * can use the request-scoped one via req.ctx
+ */
+type ExtendServer = (app: Express, ctx: BaseContext) => void;
 
 type AuthSession = {
 	authFields?: AuthFields;
+	/**
+	 * makes the roleField an enum with these values,
+	 * must include "admin" (the role of the initial user)
+	 * default: any string
+	 */
+	roles?: string[];
 	initFirstAuth: { [key: string]: any };
 	/**
 	 * add collection fields to include in the session
@@ -252,8 +489,6 @@ type AuthFields = {
 	roleField?: string;
 };
 
-type CollectionSkeletons = Record<string, Record<string, undefined>>;
-
 type Settings = {
 	db: Database;
 	authSession: AuthSession;
@@ -261,6 +496,12 @@ type Settings = {
 	defaultMiddlewares?: DefaultMiddlewares;
 	extendServer?: ExtendServer;
 	disableAdminUI?: boolean;
+	/**
+	 * where the TypeScript types of the collections are written on boot,
+	 * relative to the project, e.g. "system-panda-types.ts",
+	 * they're only written when it's set, and not when NODE_ENV is "production"
+	 */
+	typesPath?: string;
 	isAccessAllowed?: (options: Context) => boolean;
 	/**
 	 * default: {
@@ -275,6 +516,34 @@ type Settings = {
 				data?: Record<string, any> | (() => Record<string, any>);
 		  }
 		| false;
+	/**
+	 * OpenAPI document of the REST API at "[API prefix]/openapi.json",
+	 * rendered by the docs page at "[API prefix]/docs",
+	 * both require a session unless "public" is true,
+	 * false to turn both off
+	 * default: { docsPage: true, public: false }
+	 */
+	openApi?: { docsPage?: boolean; public?: boolean } | false;
+	/**
+	 * GraphQL endpoint at "[API prefix]/graphql", over the same collections,
+	 * hooks, plugins, access rules and webhooks as the REST API
+	 * default: false
+	 */
+	graphql?: boolean;
+	/**
+	 * change feeds of the collections, as Server-Sent Events at "[API prefix]/subscriptions/[slug]"
+	 * and over a WebSocket at "[API prefix]/subscriptions",
+	 * false to turn both off
+	 * default: { sse: true, webSocket: true }
+	 */
+	realtime?: { sse?: boolean; webSocket?: boolean } | false;
+	/**
+	 * operations on several collections in one transaction at "[API prefix]/batch",
+	 * with the most operations per batch and Prisma's transaction options, in milliseconds,
+	 * false to turn it off
+	 * default: { maxOperations: 50, maxWait: 2000, timeout: 5000 }
+	 */
+	batch?: { maxOperations?: number; maxWait?: number; timeout?: number } | false;
 };
 
 type Options = {
@@ -290,7 +559,7 @@ type SP = (args: Options) => Promise<void>;
 /* ********** MISC. ********** */
 type MutableDataStore = Partial<{
 	prisma: PrismaClient;
-	models: CollectionSkeletons;
+	schema: PrismaSchema;
 	initFirstAuth: AuthSession["initFirstAuth"];
 }> & {
 	authFields: Required<AuthFields>;
@@ -301,8 +570,168 @@ type MutableDataStore = Partial<{
 	};
 };
 
+/**
+ * the generated Prisma schema, as read by parsePrismaSchema
+ */
+type PrismaSchema = {
+	provider?: string;
+	models: Record<string, PrismaModel>;
+	enums: Record<string, string[]>;
+	/**
+	 * composite types (MongoDB)
+	 */
+	types: Record<string, PrismaModel>;
+};
+type PrismaModel = {
+	name: string;
+	/**
+	 * views are read-only models
+	 */
+	isView: boolean;
+	fields: Record<string, PrismaModelField>;
+	/**
+	 * block attributes, e.g. @@unique([slug, locale])
+	 */
+	attributes: PrismaAttribute[];
+	/**
+	 * table name, from @@map
+	 */
+	dbName?: string;
+};
+type PrismaModelField = {
+	name: string;
+	/**
+	 * "String", "Int"..., or the name of an enum, a model or a composite type
+	 */
+	type: string;
+	/**
+	 * "object" for relations and composite types
+	 */
+	kind: "scalar" | "enum" | "object" | "unsupported";
+	list: boolean;
+	optional: boolean;
+	isId: boolean;
+	isUnique: boolean;
+	isUpdatedAt: boolean;
+	/**
+	 * as written in @default, e.g. "autoincrement()" or "\"draft\""
+	 */
+	default?: string;
+	relation?: PrismaRelation;
+	/**
+	 * column name, from @map
+	 */
+	dbName?: string;
+	/**
+	 * e.g. "@db.VarChar(255)"
+	 */
+	nativeType?: string;
+	attributes: PrismaAttribute[];
+};
+type PrismaRelation = {
+	name?: string;
+	/**
+	 * foreign keys, only on the side that holds them
+	 */
+	fields?: string[];
+	references?: string[];
+	onDelete?: string;
+	onUpdate?: string;
+};
+type PrismaAttribute = {
+	/**
+	 * e.g. "@default", "@db.VarChar", "@@index"
+	 */
+	name: string;
+	/**
+	 * as written, e.g. { name: "map", value: "\"slug_per_locale\"" }
+	 */
+	args: { name?: string; value: string }[];
+};
+
+type ScalarQueryField = {
+	kind: "scalar";
+	type: "String" | "Json" | "Boolean" | "DateTime" | "Enum" | NumField["subtype"];
+	optional: boolean;
+	/**
+	 * allowed values of enums
+	 */
+	values?: string[];
+	/**
+	 * scalar lists, filtered with has/hasSome/hasEvery,
+	 * "type" is the type of their items
+	 */
+	list?: ListStorage;
+};
+/**
+ * how list fields are stored: as scalar lists, as Json arrays,
+ * or as JSON text where the provider has neither
+ */
+type ListStorage = "native" | "json" | "text";
+type RelationQueryField = {
+	kind: "relation";
+	ref: string;
+	many: boolean;
+};
+type QueryField = ScalarQueryField | RelationQueryField;
+type MappedQuery = {
+	where?: Record<string, unknown>;
+	orderBy?: Record<string, unknown>[];
+	select?: Record<string, boolean>;
+	include?: Record<string, unknown>;
+	distinct?: string[];
+	take?: number;
+	skip?: number;
+	cursor?: string;
+};
+type AggregateFunction = "_count" | "_sum" | "_avg" | "_min" | "_max";
+/**
+ * Prisma aggregate args, or groupBy args when "by" is set
+ */
+type MappedAggregateQuery = {
+	where?: Record<string, unknown>;
+	by?: string[];
+	orderBy?: Record<string, unknown>[];
+	take?: number;
+	skip?: number;
+} & Partial<Record<AggregateFunction, Record<string, true>>>;
+
+/**
+ * a request to a collection, from the REST or the GraphQL API
+ * query: REST-style query parameters, e.g. { "price[gte]": "10" }
+ * body: { where, data, skipDuplicates, all }
+ * id: of the record, for single record operations
+ */
+type CollectionRequest = {
+	ctx: Context;
+	cKey: string;
+	method: CollectionMethod;
+	query?: Record<string, unknown>;
+	body?: RequestBody;
+	id?: string;
+};
+
+/**
+ * one operation of a batch, on a collection by its slug, "id" for single record operations,
+ * "ref" names its result so later steps can use it, e.g. { $ref: "album.after.id" }
+ */
+type BatchStep = {
+	ref?: string;
+	collection: string;
+	method: CollectionMethod;
+	id?: string | number;
+	query?: Record<string, unknown>;
+	body?: RequestBody;
+};
+
 type CRUD_Operation = {
 	readonly operation: "create" | "read" | "update" | "delete";
+	/**
+	 * only set on update operations,
+	 * true for PATCH (only the supplied fields are updated),
+	 * false for PUT (the records are replaced)
+	 */
+	readonly isPartialUpdate?: boolean;
 };
 type RequestHeaders = {
 	[K in keyof IncomingHttpHeaders as string extends K
@@ -313,8 +742,28 @@ type RequestHeaders = {
 } & Record<string, string>;
 
 type LogLevel = "informative" | "warning" | "error";
-type CollectionMethod = "GET" | "POST" | "PUT" | "DELETE";
-type Method = CollectionMethod | "PATCH" | "HEAD" | "OPTIONS" | "TRACE" | "CONNECT";
+/**
+ * what a client is told about an error, see normalizeError
+ */
+type ErrorResponse = {
+	status: number;
+	/**
+	 * stable and machine-readable, e.g. "NOT_FOUND"
+	 */
+	code: string;
+	message: string;
+	details?: Record<string, unknown>;
+};
+/**
+ * errors with an HTTP status of their own, e.g. body-parser's, created with http-errors
+ */
+type HttpError = {
+	status?: number;
+	statusCode?: number;
+	expose?: boolean;
+};
+type CollectionMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+type Method = CollectionMethod | "HEAD" | "OPTIONS" | "TRACE" | "CONNECT";
 
 declare global {
 	/* eslint-disable no-var */
@@ -322,6 +771,12 @@ declare global {
 	/* eslint-enable no-var */
 }
 
+declare module "express-serve-static-core" {
+	interface Request {
+		ctx: Context;
+	}
+}
+
 declare module "express-session" {
 	interface SessionData {
 		userID?: string;
@@ -344,8 +799,15 @@ export {
 	SP,
 	Options,
 	LogLevel,
+	ErrorResponse,
+	ListStorage,
+	HttpError,
 	Database,
+	Migrations,
+	MigrationMode,
 	Context,
+	BaseContext,
+	CustomVars,
 	Collection,
 	Collections,
 	MiddlewareHandler,
@@ -362,25 +824,49 @@ export {
 	Webhook,
 	WebhookFunc,
 	EventTriggerPayload,
+	ChangeEvent,
+	SubscriptionRequest,
 	ActiveInactivePlugins,
 	PluginExportFn,
 	Plugins,
 	DatabasePlugin,
 	CRUDHooks,
+	CollectionTypes,
+	AnyCollectionTypes,
 	BeforeOperation,
 	AfterOperation,
 	ModifyValidateInputOperation,
 	Field,
+	FieldValidation,
+	CompoundIndex,
 	Settings,
 	AuthSession,
 	AuthFields,
 	RelationField,
+	ReferentialAction,
+	ResolvedRelation,
+	ConfigIssue,
+	EnumField,
 	CustomSessionData,
-	CollectionSkeletons,
+	PrismaSchema,
+	PrismaModel,
+	PrismaModelField,
+	PrismaRelation,
+	PrismaAttribute,
 	ExistingData,
 	InputData,
+	RecordData,
+	RequestBody,
 	MutableDataStore,
 	CollectionMethod,
+	CollectionRequest,
+	BatchStep,
 	CurrentHook,
 	HookOperationArgs,
+	QueryField,
+	ScalarQueryField,
+	RelationQueryField,
+	MappedQuery,
+	MappedAggregateQuery,
+	AggregateFunction,
 };
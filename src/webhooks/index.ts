@@ -1,5 +1,5 @@
 import EventEmitter from "events";
-import { crudMapping, EventTriggerPayload, WebhookFunc } from "../util/index.js";
+import { crudMapping, EventTriggerPayload, Webhook, WebhookFunc } from "../util/index.js";
 const emitter = new EventEmitter();
 const defaultHeaders = {
 	"content-type": "application/json",
@@ -29,4 +29,12 @@ const webhook: WebhookFunc = webhook => {
 	};
 };
 
-export { webhook };
+const triggerWebhooks = (webhooks: Webhook[], payload: EventTriggerPayload) => {
+	webhooks.forEach(obj => {
+		if (obj.onOperation.includes(payload.event)) {
+			webhook(obj).trigger(payload);
+		}
+	});
+};
+
+export { webhook, triggerWebhooks };